@@ -0,0 +1,88 @@
+import { Node } from './visitor';
+
+// Bumped whenever the shape of serialized ASTs changes
+export const AST_FORMAT_VERSION = 1;
+
+export interface SerializedAST {
+  version: number;
+  ast: Node;
+}
+
+export interface EqualityOptions {
+  // Compare source locations too (default false: same structure from different source text is equal)
+  locations?: boolean;
+}
+
+// Deep copy of a node, its types and locations. ASTs are plain data, so this
+// is a structural copy with no shared objects.
+export function clone<T extends Node>(node: T): T {
+  return copy(node) as T;
+}
+
+// Structural equality; fields that are absent and fields set to undefined compare equal
+export function equals(a: Node, b: Node, options: EqualityOptions = {}): boolean {
+  return deepEqual(a, b, options.locations ?? false);
+}
+
+// Stable JSON: object keys are sorted, so the same AST always serializes to the same text
+export function serialize(node: Node, space?: number): string {
+  return JSON.stringify({ version: AST_FORMAT_VERSION, ast: sortKeys(node) }, null, space);
+}
+
+export function deserialize(json: string): Node {
+  const data = JSON.parse(json) as Partial<SerializedAST>;
+
+  if (data.version !== AST_FORMAT_VERSION) {
+    throw new Error(`Unsupported AST format version: ${data.version} (expected ${AST_FORMAT_VERSION})`);
+  }
+  if (!data.ast || typeof data.ast !== 'object' || typeof data.ast.kind !== 'string') {
+    throw new Error('Serialized AST has no root node');
+  }
+
+  return data.ast;
+}
+
+function copy(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copy);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, copy(v)]));
+  }
+  return value;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function deepEqual(a: unknown, b: unknown, locations: boolean): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length &&
+      a.every((item, i) => deepEqual(item, b[i], locations));
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  const keys = (o: object) => Object.keys(o).filter(key =>
+    (o as Record<string, unknown>)[key] !== undefined && (locations || key !== 'location')
+  );
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+
+  return aKeys.length === bKeys.length && aKeys.every(key =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], locations)
+  );
+}
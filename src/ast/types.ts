@@ -7,7 +7,15 @@ export type ASTNode =
   | Let
   | Template
   | Pipeline
-  | TypeAnnotation;
+  | TypeAnnotation
+  | DefPrompt
+  | Case
+  | ListLiteral
+  | RecordLiteral
+  | FieldAccess
+  | BinaryOperation
+  | UnaryOperation
+  | ErrorNode;
 
 export interface Literal {
   kind: 'literal';
@@ -28,6 +36,7 @@ export interface Lambda {
   params: Parameter[];
   body: ASTNode;
   returnType?: Type;
+  pure?: boolean; // written `pure (x) -> ...`: the body may not call anything with effects
   location: Location;
 }
 
@@ -60,6 +69,7 @@ export interface Binding {
 export interface Template {
   kind: 'template';
   parts: TemplatePart[];
+  block: boolean; // written with triple quotes
   location: Location;
 }
 
@@ -67,6 +77,54 @@ export type TemplatePart =
   | { kind: 'text'; value: string }
   | { kind: 'interpolation'; expression: ASTNode };
 
+export interface ListLiteral {
+  kind: 'list_literal';
+  elements: ASTNode[];
+  location: Location;
+}
+
+export interface RecordLiteral {
+  kind: 'record_literal';
+  fields: RecordLiteralField[];
+  location: Location;
+}
+
+export interface RecordLiteralField {
+  name: string;
+  value: ASTNode;
+}
+
+// record.field (null when the record does not have it), or a method-style
+// call value.fn when the value is not a record
+export interface FieldAccess {
+  kind: 'field_access';
+  object: ASTNode;
+  field: string;
+  location: Location;
+}
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/'
+  | '==' | '!=' | '<' | '>' | '<=' | '>='
+  | 'and' | 'or';
+
+export type UnaryOperator = '-' | 'not';
+
+export interface BinaryOperation {
+  kind: 'binary';
+  operator: BinaryOperator;
+  left: ASTNode;
+  right: ASTNode;
+  location: Location;
+}
+
+export interface UnaryOperation {
+  kind: 'unary';
+  operator: UnaryOperator;
+  operand: ASTNode;
+  location: Location;
+}
+
 export interface Pipeline {
   kind: 'pipeline';
   stages: ASTNode[];
@@ -80,18 +138,163 @@ export interface TypeAnnotation {
   location: Location;
 }
 
+// Root of a source file: an ordered list of top-level declarations
+export interface Program {
+  kind: 'program';
+  declarations: Declaration[];
+  location: Location;
+}
+
+export type Declaration =
+  | DefPrompt
+  | DefSchema
+  | TypeAlias
+  | LetDeclaration
+  | Import
+  | ErrorNode;
+
+export interface TypeAlias {
+  kind: 'type_alias';
+  name: string;
+  type: Type;
+  location: Location;
+}
+
+// defschema Name "description" do field: Type required = default "description" ... end
+export interface DefSchema {
+  kind: 'defschema';
+  name: string;
+  description?: string;
+  fields: SchemaFieldDeclaration[];
+  location: Location;
+}
+
+export interface SchemaFieldDeclaration {
+  name: string;
+  type: Type;
+  required: boolean;
+  default?: ASTNode; // a constant: literal, negated number, or list/record of constants
+  description?: string;
+  location: Location;
+}
+
+export interface LetDeclaration {
+  kind: 'let_declaration';
+  bindings: Binding[];
+  location: Location;
+}
+
+export interface Import {
+  kind: 'import';
+  path: string;
+  names?: string[]; // all exports when omitted
+  location: Location;
+}
+
+export interface DefPrompt {
+  kind: 'defprompt';
+  name: string;
+  params: Parameter[];
+  returnType?: Type;
+  attributes: PromptAttribute[];
+  body: ASTNode;
+  location: Location;
+}
+
+// Settings written as `@model "gpt-4"` at the top of a defprompt body
+export interface PromptAttribute {
+  name: string;
+  value: string | number | boolean;
+  location: Location;
+}
+
+export interface Case {
+  kind: 'case';
+  scrutinee: ASTNode;
+  clauses: CaseClause[];
+  location: Location;
+}
+
+export interface CaseClause {
+  pattern: Pattern;
+  guard?: ASTNode;
+  body: ASTNode;
+  location: Location;
+}
+
+export type Pattern =
+  | LiteralPattern
+  | VariablePattern
+  | WildcardPattern
+  | RecordPattern
+  | ListPattern;
+
+export interface LiteralPattern {
+  kind: 'literal_pattern';
+  value: string | number | boolean;
+  location: Location;
+}
+
+export interface VariablePattern {
+  kind: 'variable_pattern';
+  name: string;
+  location: Location;
+}
+
+export interface WildcardPattern {
+  kind: 'wildcard_pattern';
+  location: Location;
+}
+
+export interface RecordPattern {
+  kind: 'record_pattern';
+  fields: RecordPatternField[];
+  location: Location;
+}
+
+export interface RecordPatternField {
+  name: string;
+  pattern: Pattern;
+}
+
+export interface ListPattern {
+  kind: 'list_pattern';
+  elements: Pattern[];
+  location: Location;
+}
+
+// Stands in for a construct that failed to parse when the parser recovers
+export interface ErrorNode {
+  kind: 'error';
+  message: string;
+  location: Location;
+}
+
 // Basic Type system for AST (will be extended in type checker)
-export type Type =
+export type Type = TypeForm & {
+  alias?: string; // set when the type was written as a named alias, e.g. Resume
+};
+
+// Effects tracked by the type checker
+export type Effect =
+  | 'llm'     // calls a model
+  | 'io'      // reads or writes outside the program
+  | 'random'  // may return a different result for the same arguments
+  | 'time';   // depends on the clock
+
+type TypeForm =
   | { kind: 'primitive'; name: 'string' | 'number' | 'boolean' | 'null' }
   | { kind: 'prompt'; input: Type; output: Type; model?: string; temperature?: number }
-  | { kind: 'function'; params: ParameterType[]; returns: Type; effects?: string[] }
+  | { kind: 'function'; params: ParameterType[]; returns: Type; effects?: Effect[] }
   | { kind: 'union'; types: Type[] }
   | { kind: 'intersection'; types: Type[] }
   | { kind: 'list'; element: Type; minLength?: number; maxLength?: number }
   | { kind: 'record'; fields: RecordField[]; open?: boolean }
   | { kind: 'dynamic'; constraint?: Type }
   | { kind: 'any' }
-  | { kind: 'never' };
+  | { kind: 'never' }
+  // Only produced by the type checker while inferring types, never parsed
+  | { kind: 'var'; id: number; level: number; instance?: Type };
 
 export interface ParameterType {
   name: string;
@@ -107,8 +310,20 @@ export interface RecordField {
   description?: string;
 }
 
-export interface Location {
+export interface Position {
   line: number;
   column: number;
+  offset: number; // UTF-8 byte offset into the source; columns count UTF-16 code units
+}
+
+// A `#` comment, kept aside by the lexer for tools such as the formatter
+export interface Comment {
+  text: string; // including the leading '#'
+  location: Location;
+}
+
+// Source span: the start position inline, plus where the construct ends (exclusive)
+export interface Location extends Position {
+  end: Position;
   file?: string;
 }
@@ -0,0 +1,137 @@
+import { ASTNode, Declaration, Parameter, Program } from './types';
+
+// Anything that can appear in a parsed source file
+export type Node = ASTNode | Declaration | Program;
+
+// One handler per expression kind, each receiving the narrowed node type
+export type Visitor<R> = {
+  [K in ASTNode['kind']]: (node: Extract<ASTNode, { kind: K }>) => R;
+};
+
+export interface WalkCallbacks {
+  // Return false to skip the node's children
+  enter?(node: Node, parent?: Node): boolean | void;
+  leave?(node: Node, parent?: Node): void;
+}
+
+// Dispatch on node kind without writing the switch
+export function visit<R>(node: ASTNode, visitor: Visitor<R>): R {
+  const handler = visitor[node.kind] as (node: ASTNode) => R;
+  return handler(node);
+}
+
+// A copy of `node` with every direct child expression replaced by `fn(child)`.
+// Children that are unchanged keep their identity; nothing is mutated.
+export function mapChildren<T extends Node>(node: T, fn: (child: ASTNode) => ASTNode): T {
+  const n = node as Node;
+  const params = (list: Parameter[]) =>
+    list.map(p => p.defaultValue ? { ...p, defaultValue: fn(p.defaultValue) } : p);
+
+  switch (n.kind) {
+    case 'literal':
+    case 'identifier':
+    case 'type_alias':
+    case 'import':
+    case 'error':
+      return node;
+
+    case 'program':
+      return { ...n, declarations: n.declarations.map(d => mapChildren(d, fn)) } as T;
+
+    case 'let_declaration':
+      return { ...n, bindings: n.bindings.map(b => ({ ...b, value: fn(b.value) })) } as T;
+
+    case 'defschema':
+      return {
+        ...n,
+        fields: n.fields.map(f => f.default ? { ...f, default: fn(f.default) } : f)
+      } as T;
+
+    case 'lambda':
+      return { ...n, params: params(n.params), body: fn(n.body) } as T;
+
+    case 'defprompt':
+      return { ...n, params: params(n.params), body: fn(n.body) } as T;
+
+    case 'application':
+      return { ...n, func: fn(n.func), args: n.args.map(fn) } as T;
+
+    case 'let':
+      return { ...n, bindings: n.bindings.map(b => ({ ...b, value: fn(b.value) })), body: fn(n.body) } as T;
+
+    case 'template':
+      return {
+        ...n,
+        parts: n.parts.map(p => p.kind === 'interpolation' ? { ...p, expression: fn(p.expression) } : p)
+      } as T;
+
+    case 'pipeline':
+      return { ...n, stages: n.stages.map(fn) } as T;
+
+    case 'type_annotation':
+      return { ...n, expression: fn(n.expression) } as T;
+
+    case 'case':
+      return {
+        ...n,
+        scrutinee: fn(n.scrutinee),
+        clauses: n.clauses.map(c => ({ ...c, guard: c.guard && fn(c.guard), body: fn(c.body) }))
+      } as T;
+
+    case 'list_literal':
+      return { ...n, elements: n.elements.map(fn) } as T;
+
+    case 'record_literal':
+      return { ...n, fields: n.fields.map(f => ({ ...f, value: fn(f.value) })) } as T;
+
+    case 'field_access':
+      return { ...n, object: fn(n.object) } as T;
+
+    case 'binary':
+      return { ...n, left: fn(n.left), right: fn(n.right) } as T;
+
+    case 'unary':
+      return { ...n, operand: fn(n.operand) } as T;
+  }
+}
+
+// Direct children in source order; a program's children are its declarations
+export function children(node: Node): Node[] {
+  if (node.kind === 'program') {
+    return node.declarations;
+  }
+
+  const result: Node[] = [];
+  mapChildren(node, child => {
+    result.push(child);
+    return child;
+  });
+  return result;
+}
+
+// Depth-first traversal, calling `enter` before and `leave` after each node's children
+export function walk(node: Node, callbacks: WalkCallbacks, parent?: Node): void {
+  if (callbacks.enter?.(node, parent) === false) {
+    return;
+  }
+  for (const child of children(node)) {
+    walk(child, callbacks, node);
+  }
+  callbacks.leave?.(node, parent);
+}
+
+// Bottom-up rewrite: children are transformed first, then `rewrite` sees the
+// rebuilt node and returns it or a replacement
+export function transform<T extends Node>(node: T, rewrite: (node: ASTNode) => ASTNode): T {
+  if (node.kind === 'program') {
+    return { ...node, declarations: (node as Program).declarations.map(d => transform(d, rewrite)) } as T;
+  }
+
+  const rebuilt = mapChildren(node, child => transform(child, rewrite));
+  return isExpression(rebuilt) ? rewrite(rebuilt) as T : rebuilt;
+}
+
+function isExpression(node: Node): node is ASTNode {
+  return node.kind !== 'program' && node.kind !== 'type_alias' && node.kind !== 'let_declaration' &&
+    node.kind !== 'import' && node.kind !== 'defschema';
+}
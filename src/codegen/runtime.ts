@@ -0,0 +1,113 @@
+import { CallFunction, standardLibrary } from '../stdlib/builtins';
+
+// Support code imported by modules from `compileToTypeScript`, so that
+// generated code keeps the evaluator's semantics without embedding them
+export { Schema } from '../types/schema';
+export { PromptExecutor } from '../runtime/executor';
+
+const call: CallFunction = async (func, args) => func(...args);
+
+export const builtins: Record<string, (...args: any[]) => any> = Object.fromEntries(
+  standardLibrary.all().map(b => [b.name, (...args: any[]) => b.impl(args, call)])
+);
+
+// How an interpolated value appears in rendered text
+export function text(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'function') {
+    return '<function>';
+  }
+  return JSON.stringify(value);
+}
+
+export function equal(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equal(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasField(b, key) && equal(a[key], b[key]));
+  }
+  return false;
+}
+
+// `value.name`: the record field (null when unset), or else `method(value)`
+export async function field(value: unknown, name: string, method?: (value: any) => unknown): Promise<any> {
+  if (isRecord(value)) {
+    return hasField(value, name) ? value[name] : null;
+  }
+  if (method) {
+    return method(value);
+  }
+  throw new Error(`No field ${name} on ${Array.isArray(value) ? 'list' : value === null ? 'null' : typeof value}`);
+}
+
+// Case patterns as emitted by the code generator, without source locations
+export type Pattern =
+  | { kind: 'wildcard_pattern' }
+  | { kind: 'variable_pattern'; name: string }
+  | { kind: 'literal_pattern'; value: string | number | boolean }
+  | { kind: 'record_pattern'; fields: Array<{ name: string; pattern: Pattern }> }
+  | { kind: 'list_pattern'; elements: Pattern[] };
+
+// The variables a case pattern binds, or undefined when it does not match
+export function match(pattern: Pattern, value: unknown, bindings: Record<string, any> = {}): Record<string, any> | undefined {
+  switch (pattern.kind) {
+    case 'wildcard_pattern':
+      return bindings;
+
+    case 'variable_pattern':
+      bindings[pattern.name] = value;
+      return bindings;
+
+    case 'literal_pattern':
+      return value === pattern.value ? bindings : undefined;
+
+    case 'record_pattern':
+      if (!isRecord(value)) {
+        return undefined;
+      }
+      for (const f of pattern.fields) {
+        if (!hasField(value, f.name) || !match(f.pattern, value[f.name], bindings)) {
+          return undefined;
+        }
+      }
+      return bindings;
+
+    case 'list_pattern':
+      if (!Array.isArray(value) || value.length !== pattern.elements.length) {
+        return undefined;
+      }
+      for (let i = 0; i < value.length; i++) {
+        if (!match(pattern.elements[i], value[i], bindings)) {
+          return undefined;
+        }
+      }
+      return bindings;
+  }
+}
+
+// A top-level binding computed on first use, so importing a module never calls a model
+export function lazy<T>(compute: () => Promise<T>): () => Promise<T> {
+  let result: Promise<T> | undefined;
+  return () => {
+    if (!result) {
+      result = compute();
+    }
+    return result;
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Own fields only, as in the evaluator
+function hasField(record: Record<string, any>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, name);
+}
@@ -0,0 +1,536 @@
+import * as AST from '../ast/types';
+import { constantValue } from '../types/schema';
+import { BuiltinRegistry, standardLibrary } from '../stdlib/builtins';
+import { ModuleLoader } from '../modules/loader';
+
+export interface TypeScriptOptions {
+  // Module specifier the generated code imports its runtime support from
+  runtime?: string;
+  // Named in the header comment
+  source?: string;
+  // Builtins the program may call; they must also be in the runtime's registry
+  builtins?: BuiltinRegistry;
+  // Finds imported modules, whose generated code is expected next to this
+  // module's, named after the source file without its .pl extension
+  modules?: ModuleLoader;
+}
+
+export class CodegenError extends Error {
+  constructor(message: string, public location?: AST.Location) {
+    super(message);
+    this.name = 'CodegenError';
+  }
+}
+
+// How a name in scope is referred to in generated code
+interface Binding {
+  kind: 'local' | 'function' | 'lazy' | 'builtin';
+  code: string;
+  // Required and total parameter counts, when known
+  required?: number;
+  params?: number;
+}
+
+interface Scope {
+  bindings: Map<string, Binding>;
+  parent?: Scope;
+}
+
+// Names PromptLang allows that TypeScript does not
+const RESERVED = new Set([
+  'break', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with', 'yield', 'await', 'async', 'interface', 'type', 'any', 'unknown',
+  // Used by the generated module itself
+  'configure', 'rt'
+]);
+
+const ATTRIBUTE_OPTIONS: Record<string, string> = {
+  model: 'model',
+  temperature: 'temperature',
+  max_tokens: 'maxTokens',
+  system: 'systemPrompt'
+};
+
+// Emits a TypeScript module for a program: an interface and a runtime Schema
+// per defschema, a type per type alias, and an exported async function per
+// defprompt and per top-level function. Defprompts send their rendered body
+// through the PromptExecutor passed to the module's `configure` function.
+//
+// Every generated function is async, so expressions are emitted with `await`
+// around each call. Other top-level bindings are computed on first use.
+class TypeScriptGenerator {
+  private declared = new Set<string>();
+  private schemas = new Set<string>();
+  private lines: string[] = [];
+
+  constructor(private options: TypeScriptOptions) {}
+
+  generate(program: AST.Program): string {
+    const runtime = this.options.runtime || 'promptlang/dist/codegen/runtime';
+    const scope: Scope = {
+      bindings: new Map((this.options.builtins || standardLibrary).all().map(b => [b.name, {
+        kind: 'builtin',
+        code: `rt.builtins.${b.name}`,
+        required: b.type.params.filter(p => !p.optional).length,
+        params: b.type.params.length
+      }]))
+    };
+    const programScope: Scope = { bindings: new Map(), parent: scope };
+
+    for (const decl of program.declarations) {
+      if (decl.kind === 'type_alias' || decl.kind === 'defschema') {
+        this.declared.add(decl.name);
+      }
+      if (decl.kind === 'defschema') {
+        this.schemas.add(decl.name);
+      }
+    }
+
+    this.lines.push(`// Generated by promptLang${this.options.source ? ` from ${this.options.source}` : ''}. Do not edit.`);
+    this.lines.push(`import * as rt from '${runtime}';`);
+    for (const decl of program.declarations) {
+      if (decl.kind === 'import') {
+        this.importDeclaration(decl, programScope);
+      }
+    }
+    this.lines.push('');
+    this.lines.push('let $executor: rt.PromptExecutor | undefined;');
+    this.lines.push('');
+    this.lines.push('// Prompts are sent through this executor');
+    this.lines.push('export function configure(executor: rt.PromptExecutor): void {');
+    this.lines.push('  $executor = executor;');
+    this.lines.push('}');
+
+    for (const decl of program.declarations) {
+      if (decl.kind !== 'import') {
+        this.lines.push('');
+        this.declaration(decl, programScope);
+      }
+    }
+
+    this.lines.push('');
+    this.lines.push('function $client(): rt.PromptExecutor {');
+    this.lines.push('  if (!$executor) {');
+    this.lines.push(`    throw new Error('Call configure() with a PromptExecutor before running prompts');`);
+    this.lines.push('  }');
+    this.lines.push('  return $executor;');
+    this.lines.push('}');
+
+    return this.lines.join('\n') + '\n';
+  }
+
+  private declaration(decl: AST.Declaration, scope: Scope): void {
+    switch (decl.kind) {
+      case 'type_alias':
+        this.lines.push(`export type ${decl.name} = ${this.type({ ...decl.type, alias: undefined })};`);
+        break;
+
+      case 'defschema':
+        this.schema(decl);
+        break;
+
+      case 'defprompt':
+        this.bindFunction(decl.name, decl.params, scope);
+        this.prompt(decl, scope);
+        break;
+
+      case 'let_declaration':
+        for (const binding of decl.bindings) {
+          this.topLevelBinding(binding, scope);
+        }
+        break;
+
+      case 'import':
+        // Emitted at the top of the module
+        break;
+
+      case 'error':
+        throw new CodegenError(`Cannot generate code for invalid syntax: ${decl.message}`, decl.location);
+    }
+  }
+
+  // Imports what an import names from the module generated for its path. How
+  // each value is referred to depends on how it was declared, so the imported
+  // module is loaded to find out.
+  private importDeclaration(decl: AST.Import, scope: Scope): void {
+    if (!this.options.modules) {
+      throw new CodegenError(`Cannot import ${decl.path} without a module loader`, decl.location);
+    }
+
+    const module = this.options.modules.load(decl.path, decl.location.file);
+    const wanted = decl.names && new Set(decl.names);
+    const imported: string[] = [];
+
+    for (const exported of module.program.declarations) {
+      switch (exported.kind) {
+        case 'type_alias':
+        case 'defschema':
+          if (!wanted || wanted.has(exported.name)) {
+            wanted?.delete(exported.name);
+            this.declared.add(exported.name);
+            imported.push(exported.name);
+            if (exported.kind === 'defschema') {
+              this.schemas.add(exported.name);
+              imported.push(`${exported.name}Schema`);
+            }
+          }
+          break;
+
+        case 'defprompt':
+          if (!wanted || wanted.has(exported.name)) {
+            wanted?.delete(exported.name);
+            this.bindFunction(exported.name, exported.params, scope);
+            imported.push(this.name(exported.name));
+          }
+          break;
+
+        case 'let_declaration':
+          for (const binding of exported.bindings) {
+            if (!wanted || wanted.has(binding.name)) {
+              wanted?.delete(binding.name);
+              this.bindValue(binding, scope);
+              imported.push(this.name(binding.name));
+            }
+          }
+          break;
+      }
+    }
+
+    if (wanted && wanted.size > 0) {
+      throw new CodegenError(`Module ${module.id} has no export named ${[...wanted].join(', ')}`, decl.location);
+    }
+    if (imported.length > 0) {
+      this.lines.push(`import { ${imported.join(', ')} } from '${decl.path.replace(/\.pl$/, '')}';`);
+    }
+  }
+
+  private schema(decl: AST.DefSchema): void {
+    if (decl.description) {
+      this.lines.push(`/** ${this.comment(decl.description)} */`);
+    }
+    this.lines.push(`export interface ${decl.name} {`);
+    for (const field of decl.fields) {
+      if (field.description) {
+        this.lines.push(`  /** ${this.comment(field.description)} */`);
+      }
+      this.lines.push(`  ${this.key(field.name)}${field.required ? '' : '?'}: ${this.type(field.type)};`);
+    }
+    this.lines.push('}');
+    this.lines.push('');
+
+    const definition = {
+      name: decl.name,
+      description: decl.description,
+      fields: decl.fields.map(field => ({
+        name: field.name,
+        type: field.type,
+        required: field.required,
+        description: field.description,
+        default: field.default ? constantValue(field.default) : undefined
+      }))
+    };
+    this.lines.push(`export const ${decl.name}Schema = new rt.Schema(${JSON.stringify(definition)});`);
+  }
+
+  private prompt(decl: AST.DefPrompt, scope: Scope): void {
+    const body = this.local(scope, decl.params);
+    const returnType = decl.returnType || { kind: 'primitive', name: 'string' } as AST.Type;
+
+    const options = decl.attributes
+      .filter(a => a.name in ATTRIBUTE_OPTIONS)
+      .map(a => `${ATTRIBUTE_OPTIONS[a.name]}: ${JSON.stringify(a.value)}`);
+    const schema = returnType.alias && this.schemas.has(returnType.alias) ? returnType.alias : undefined;
+    if (schema) {
+      options.push(`outputSchema: ${schema}Schema`);
+    }
+
+    // Without a schema, structured responses are parsed as plain JSON
+    const structured = !schema && !(returnType.kind === 'primitive' && returnType.name === 'string');
+
+    this.lines.push(`export async function ${this.name(decl.name)}(${this.parameters(decl.params, scope)}): Promise<${this.type(returnType)}> {`);
+    this.lines.push(`  const $prompt = rt.text(${this.expression(decl.body, body)});`);
+    this.lines.push(`  const $result = await $client().execute<any>($prompt, ${options.length > 0 ? `{ ${options.join(', ')} }` : '{}'});`);
+    this.lines.push(`  return ${structured ? 'JSON.parse($result.value)' : '$result.value'};`);
+    this.lines.push('}');
+  }
+
+  private topLevelBinding(binding: AST.Binding, scope: Scope): void {
+    const name = this.name(binding.name);
+    const value = binding.value;
+
+    if (value.kind === 'lambda') {
+      this.bindValue(binding, scope);
+      const body = this.local(scope, value.params);
+      const returns = value.returnType ? `: Promise<${this.type(value.returnType)}>` : '';
+      this.lines.push(`export async function ${name}(${this.parameters(value.params, scope)})${returns} {`);
+      this.lines.push(`  return ${this.expression(value.body, body)};`);
+      this.lines.push('}');
+    } else if (this.isConstant(value)) {
+      this.bindValue(binding, scope);
+      this.lines.push(`export const ${name} = ${JSON.stringify(constantValue(value))};`);
+    } else {
+      const code = this.expression(value, scope);
+      this.bindValue(binding, scope);
+      this.lines.push(`export const ${name} = rt.lazy(async () => ${code});`);
+    }
+  }
+
+  // Top-level lambdas become functions, constants plain values, and other
+  // bindings are computed on first use
+  private bindValue(binding: AST.Binding, scope: Scope): void {
+    if (binding.value.kind === 'lambda') {
+      this.bindFunction(binding.name, binding.value.params, scope);
+    } else {
+      scope.bindings.set(binding.name, { kind: this.isConstant(binding.value) ? 'local' : 'lazy', code: this.name(binding.name) });
+    }
+  }
+
+  private bindFunction(name: string, params: AST.Parameter[], scope: Scope): void {
+    scope.bindings.set(name, {
+      kind: 'function',
+      code: this.name(name),
+      required: params.filter(p => !p.defaultValue).length,
+      params: params.length
+    });
+  }
+
+  private expression(node: AST.ASTNode, scope: Scope): string {
+    switch (node.kind) {
+      case 'literal':
+        return JSON.stringify(node.value);
+
+      case 'identifier':
+        return this.reference(node.name, scope, node.location);
+
+      case 'lambda': {
+        const body = this.local(scope, node.params);
+        const returns = node.returnType ? `: Promise<${this.type(node.returnType)}>` : '';
+        return `(async (${this.parameters(node.params, scope)})${returns} => ${this.expression(node.body, body)})`;
+      }
+
+      case 'application':
+        return this.apply(node.func, node.args.map(arg => this.expression(arg, scope)), scope);
+
+      case 'pipeline':
+        return node.stages.slice(1).reduce((value, stage) => stage.kind === 'application'
+          ? this.apply(stage.func, [value, ...stage.args.map(arg => this.expression(arg, scope))], scope)
+          : this.apply(stage, [value], scope),
+        this.expression(node.stages[0], scope));
+
+      case 'type_annotation':
+        return this.expression(node.expression, scope);
+
+      case 'let': {
+        // One function per binding, so that each sees the ones before it, as in the evaluator
+        const [binding, ...rest] = node.bindings;
+        const body: AST.ASTNode = rest.length > 0 ? { ...node, bindings: rest } : node.body;
+        const value = this.expression(binding.value, scope);
+        return `(await (async (${this.name(binding.name)}: any) => ${this.expression(body, this.local(scope, [binding]))})(${value}))`;
+      }
+
+      case 'template':
+        return '`' + node.parts.map(part => part.kind === 'text'
+          ? part.value.replace(/[\\`]/g, c => '\\' + c).replace(/\$\{/g, '\\${')
+          : '${rt.text(' + this.expression(part.expression, scope) + ')}'
+        ).join('') + '`';
+
+      case 'case':
+        return this.caseExpression(node, scope);
+
+      case 'list_literal':
+        return `[${node.elements.map(e => this.expression(e, scope)).join(', ')}]`;
+
+      case 'record_literal':
+        return `{ ${node.fields.map(f => `${this.key(f.name)}: ${this.expression(f.value, scope)}`).join(', ')} }`;
+
+      case 'field_access': {
+        const method = this.lookup(node.field, scope);
+        const methodCode = method ? `, ${this.value(method)}` : '';
+        return `(await rt.field(${this.expression(node.object, scope)}, ${JSON.stringify(node.field)}${methodCode}))`;
+      }
+
+      case 'binary': {
+        const left = this.expression(node.left, scope);
+        const right = this.expression(node.right, scope);
+        switch (node.operator) {
+          case '==': return `rt.equal(${left}, ${right})`;
+          case '!=': return `!rt.equal(${left}, ${right})`;
+          case 'and': return `(${left} && ${right})`;
+          case 'or': return `(${left} || ${right})`;
+          default: return `(${left} ${node.operator} ${right})`;
+        }
+      }
+
+      case 'unary':
+        return `(${node.operator === 'not' ? '!' : '-'}${this.expression(node.operand, scope)})`;
+
+      case 'defprompt':
+        throw new CodegenError('defprompt is only allowed at the top level', node.location);
+
+      case 'error':
+        throw new CodegenError(`Cannot generate code for invalid syntax: ${node.message}`, node.location);
+    }
+  }
+
+  // A call with already generated arguments. Functions whose arity is known
+  // are curried as in the evaluator: too few arguments give a closure waiting
+  // for the rest, and extra arguments are applied to the result.
+  private apply(func: AST.ASTNode, args: string[], scope: Scope): string {
+    const binding = func.kind === 'identifier' ? this.lookup(func.name, scope) : undefined;
+    const callee = binding && binding.kind !== 'lazy' ? binding.code : this.expression(func, scope);
+
+    if (!binding || binding.required === undefined || binding.params === undefined) {
+      return `(await ${callee}(${args.join(', ')}))`;
+    }
+    if (args.length < binding.required) {
+      const rest = Array.from({ length: binding.required - args.length }, (_, i) => `$${i + 1}`);
+      return `(async (${rest.map(r => `${r}: any`).join(', ')}) => ${callee}(${[...args, ...rest].join(', ')}))`;
+    }
+    if (args.length > binding.params) {
+      const result = `(await ${callee}(${args.slice(0, binding.params).join(', ')}))`;
+      return `(await ${result}(${args.slice(binding.params).join(', ')}))`;
+    }
+    return `(await ${callee}(${args.join(', ')}))`;
+  }
+
+  private caseExpression(node: AST.Case, scope: Scope): string {
+    const clauses = node.clauses.map(clause => {
+      const variables = this.patternVariables(clause.pattern);
+      const body = this.local(scope, variables.map(name => ({ name })));
+      const bindings = variables.map(name => `const ${this.name(name)} = $m.${name};`).join(' ');
+      const pattern = JSON.stringify(clause.pattern, (key, value) => key === 'location' ? undefined : value);
+      const result = `return ${this.expression(clause.body, body)};`;
+      const guarded = clause.guard ? `if (${this.expression(clause.guard, body)}) { ${result} }` : result;
+      return `if (($m = rt.match(${pattern}, $v))) { ${bindings}${bindings ? ' ' : ''}${guarded} }`;
+    });
+
+    return `(await (async ($v: any) => { let $m: any; ${clauses.join(' ')} ` +
+      `throw new Error('No case clause matched ' + rt.text($v)); })(${this.expression(node.scrutinee, scope)}))`;
+  }
+
+  private patternVariables(pattern: AST.Pattern): string[] {
+    switch (pattern.kind) {
+      case 'variable_pattern':
+        return [pattern.name];
+      case 'record_pattern':
+        return pattern.fields.flatMap(f => this.patternVariables(f.pattern));
+      case 'list_pattern':
+        return pattern.elements.flatMap(e => this.patternVariables(e));
+      default:
+        return [];
+    }
+  }
+
+  private parameters(params: AST.Parameter[], outer: Scope): string {
+    return params.map(p => {
+      const type = p.type ? this.type(p.type) : 'any';
+      // Defaults see the defining scope, as in the checker and evaluator
+      const value = p.defaultValue ? ` = ${this.expression(p.defaultValue, outer)}` : '';
+      return `${this.name(p.name)}: ${type}${value}`;
+    }).join(', ');
+  }
+
+  private local(scope: Scope, names: Array<{ name: string }>): Scope {
+    return {
+      bindings: new Map(names.map(n => [n.name, { kind: 'local', code: this.name(n.name) } as Binding])),
+      parent: scope
+    };
+  }
+
+  private reference(name: string, scope: Scope, location: AST.Location): string {
+    const binding = this.lookup(name, scope);
+    if (!binding) {
+      throw new CodegenError(`Undefined identifier: ${name}`, location);
+    }
+    return this.value(binding);
+  }
+
+  private value(binding: Binding): string {
+    return binding.kind === 'lazy' ? `(await ${binding.code}())` : binding.code;
+  }
+
+  private lookup(name: string, scope: Scope): Binding | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const binding = current.bindings.get(name);
+      if (binding) {
+        return binding;
+      }
+    }
+    return undefined;
+  }
+
+  private isConstant(node: AST.ASTNode): boolean {
+    switch (node.kind) {
+      case 'literal':
+        return true;
+      case 'unary':
+        return node.operator === '-' && node.operand.kind === 'literal';
+      case 'list_literal':
+        return node.elements.every(e => this.isConstant(e));
+      case 'record_literal':
+        return node.fields.every(f => this.isConstant(f.value));
+      default:
+        return false;
+    }
+  }
+
+  private type(type: AST.Type): string {
+    if (type.alias && this.declared.has(type.alias)) {
+      return type.alias;
+    }
+
+    switch (type.kind) {
+      case 'primitive':
+        return type.name;
+      case 'list':
+        return `Array<${this.type(type.element)}>`;
+      case 'record': {
+        const fields = type.fields.map(f => `${this.key(f.name)}${f.optional ? '?' : ''}: ${this.type(f.type)}`);
+        if (type.open) {
+          fields.push('[field: string]: any');
+        }
+        return fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}';
+      }
+      case 'union':
+        return type.types.map(t => this.nested(t)).join(' | ');
+      case 'intersection':
+        return type.types.map(t => this.nested(t)).join(' & ');
+      case 'function':
+        return `(${type.params.map(p => `${this.name(p.name)}${p.optional ? '?' : ''}: ${this.type(p.type)}`).join(', ')}) => Promise<${this.type(type.returns)}>`;
+      case 'prompt':
+        return `(input: ${this.type(type.input)}) => Promise<${this.type(type.output)}>`;
+      case 'dynamic':
+      case 'any':
+      case 'var':
+        return 'any';
+      case 'never':
+        return 'never';
+    }
+  }
+
+  // Types inside unions and intersections that need parentheses
+  private nested(type: AST.Type): string {
+    const code = this.type(type);
+    const bare = type.alias && this.declared.has(type.alias);
+    return !bare && ['union', 'intersection', 'function', 'prompt'].includes(type.kind) ? `(${code})` : code;
+  }
+
+  private key(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+  }
+
+  // Text inside a /** */ comment, which must not end it early
+  private comment(text: string): string {
+    return text.replace(/\*\//g, '*\\/');
+  }
+
+  private name(name: string): string {
+    return RESERVED.has(name) ? `${name}_` : name;
+  }
+}
+
+export function compileToTypeScript(program: AST.Program, options: TypeScriptOptions = {}): string {
+  return new TypeScriptGenerator(options).generate(program);
+}
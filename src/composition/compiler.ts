@@ -0,0 +1,380 @@
+import * as AST from '../ast/types';
+import { TypeChecker, TypeError } from '../types/checker';
+import { Schema } from '../types/schema';
+import { FunctionType, Type } from '../types/types';
+import { BuiltinRegistry } from '../stdlib/builtins';
+import { Closure, Environment, EvaluationError, Evaluator, PromptRunner, Value } from '../runtime/evaluator';
+import { Prompt, PromptBuilder, alternative, cached, parallel, pipe, retry, timeout } from './operators';
+
+export interface CompilerOptions {
+  // Sends each rendered defprompt body to a model
+  runPrompt: PromptRunner;
+  // Builtin functions; the standard library unless given
+  builtins?: BuiltinRegistry;
+  // Schemas declared outside the program, e.g. in imported modules
+  schemas?: Map<string, Schema>;
+}
+
+// A defprompt lowered to a prompt graph; nothing runs until the builder is executed
+export type CompiledPrompt = (...args: Value[]) => PromptBuilder<Value>;
+
+export interface CompiledProgram {
+  prompts: Map<string, CompiledPrompt>;
+  // Lower an expression over the program's bindings, e.g. `parallel [summarize a, summarize b]`
+  flow(expression: AST.ASTNode): PromptBuilder<Value>;
+}
+
+export class CompileError extends Error {
+  constructor(message: string, public errors: TypeError[] = []) {
+    super(message);
+    this.name = 'CompileError';
+  }
+}
+
+const DYNAMIC: Type = { kind: 'dynamic' };
+
+function stage(params: Array<[string, Type, boolean?]>): FunctionType {
+  return {
+    kind: 'function',
+    params: [
+      { name: 'value', type: DYNAMIC },
+      ...params.map(([name, type, optional]) => ({ name, type, optional }))
+    ],
+    returns: DYNAMIC
+  };
+}
+
+// Pipeline stages that map onto the composition operators instead of being
+// evaluated. Schema names are passed to validate_schema as plain identifiers.
+export const COMBINATOR_TYPES: Map<string, Type> = new Map<string, Type>([
+  ['validate_schema', stage([['schema', DYNAMIC]])],
+  ['retry_with_backoff', stage([['options', { kind: 'record', fields: [], open: true }, true]])],
+  ['with_timeout', stage([['ms', { kind: 'primitive', name: 'number' }]])],
+  ['cached', stage([['key', { kind: 'primitive', name: 'string' }]])],
+  ['fallback', stage([['alternative', DYNAMIC]])],
+  ['parallel', {
+    kind: 'function',
+    params: [{ name: 'prompts', type: { kind: 'list', element: DYNAMIC } }],
+    returns: { kind: 'list', element: DYNAMIC }
+  }]
+]);
+
+const RETRY_OPTIONS: Record<string, string> = {
+  max_attempts: 'maxAttempts',
+  initial_delay: 'initialDelay',
+  max_delay: 'maxDelay',
+  backoff_factor: 'backoffFactor'
+};
+
+// Lowers checked programs into `Prompt` graphs. A defprompt's body pipeline is
+// split at its first combinator stage: the stages before it render the text
+// sent to the model, and the stages from it on wrap the model call, so
+//
+//   text |> template |> validate_schema Resume |> retry_with_backoff {max_attempts: 3}
+//
+// retries the model call until its response validates. Other stages after the
+// split transform the response; stages that call another defprompt run its
+// compiled graph, combinators included.
+//
+// Compiling never calls the model: a top-level binding that applies a
+// defprompt is a compile error, and belongs in a flow instead.
+export class PromptCompiler {
+  private evaluator: Evaluator;
+  private bindings: Evaluator;
+
+  constructor(private options: CompilerOptions) {
+    this.evaluator = new Evaluator({ builtins: options.builtins, runPrompt: options.runPrompt });
+    this.bindings = new Evaluator({
+      builtins: options.builtins,
+      runPrompt: async request => {
+        throw new CompileError(`Top-level bindings cannot call prompt ${request.name} while compiling; call it from a flow`);
+      }
+    });
+  }
+
+  async compile(program: AST.Program): Promise<CompiledProgram> {
+    const schemas = new Map(this.options.schemas);
+    for (const decl of program.declarations) {
+      if (decl.kind === 'defschema') {
+        schemas.set(decl.name, Schema.fromDeclaration(decl));
+      }
+    }
+
+    this.check(program, schemas);
+
+    const env = await this.bindings.evaluateProgram(program);
+    const lowering = new Lowering(this.evaluator, this.options.runPrompt, schemas);
+
+    const prompts = new Map<string, CompiledPrompt>();
+    for (const decl of program.declarations) {
+      if (decl.kind === 'defprompt') {
+        const closure = env.bindings.get(decl.name) as Closure;
+        prompts.set(decl.name, (...args) => new PromptBuilder(lowering.call(closure, args)));
+      }
+    }
+
+    return {
+      prompts,
+      flow: expression => new PromptBuilder(deferred(async () => lowering.expression(expression, env)))
+    };
+  }
+
+  private check(program: AST.Program, schemas: Map<string, Schema>): void {
+    const checker = new TypeChecker(this.options.builtins);
+    const bindings = new Map(COMBINATOR_TYPES);
+    for (const name of schemas.keys()) {
+      bindings.set(name, DYNAMIC);
+    }
+
+    checker.checkProgram(program, checker.extendEnvironment(bindings));
+
+    const errors = checker.getErrors();
+    if (errors.length > 0) {
+      throw new CompileError(`Cannot compile program with type errors: ${errors.map(e => e.message).join('; ')}`, errors);
+    }
+  }
+}
+
+class Lowering {
+  constructor(
+    private evaluator: Evaluator,
+    private runPrompt: PromptRunner,
+    private schemas: Map<string, Schema>
+  ) {}
+
+  // A defprompt applied to its arguments
+  call(closure: Closure, args: Value[]): Prompt<Value> {
+    const decl = closure.prompt!;
+
+    return deferred(async () => {
+      const required = decl.params.filter(p => !p.defaultValue).length;
+      if (args.length < required || args.length > decl.params.length) {
+        throw new EvaluationError(`Prompt ${decl.name} expects ${required} arguments, got ${args.length}`, decl.location);
+      }
+
+      const env: Environment = { bindings: new Map(), parent: closure.env };
+      for (let i = 0; i < decl.params.length; i++) {
+        const param = decl.params[i];
+        const value = i < args.length ? args[i] : await this.evaluator.evaluate(param.defaultValue!, closure.env);
+        env.bindings.set(param.name, value);
+      }
+
+      const stages = decl.body.kind === 'pipeline' ? decl.body.stages : [decl.body];
+      const split = stages.findIndex((s, i) => i > 0 && this.combinator(s, env) !== undefined);
+      const renderStages = split === -1 ? stages : stages.slice(0, split);
+      const render: AST.ASTNode = renderStages.length === 1
+        ? renderStages[0]
+        : { kind: 'pipeline', stages: renderStages, location: decl.body.location };
+
+      const response = pipe(
+        lift(() => this.evaluator.evaluate(render, env)),
+        text => lift(() => this.ask(decl, text))
+      );
+      return this.stages(response, split === -1 ? [] : stages.slice(split), env);
+    });
+  }
+
+  expression(node: AST.ASTNode, env: Environment): Prompt<Value> {
+    if (node.kind === 'pipeline') {
+      return this.stages(this.expression(node.stages[0], env), node.stages.slice(1), env);
+    }
+
+    if (node.kind === 'application' && node.func.kind === 'identifier') {
+      const name = node.func.name;
+
+      if (name === 'parallel' && this.lookup(name, env) === undefined) {
+        const list = node.args[0];
+        if (node.args.length !== 1 || list.kind !== 'list_literal') {
+          throw new EvaluationError('parallel expects a list of prompts', node.location);
+        }
+        return parallel(...list.elements.map(e => this.expression(e, env))) as Prompt<Value>;
+      }
+
+      const closure = this.prompt(name, env);
+      if (closure) {
+        return deferred(async () => this.call(closure, await this.evaluateAll(node.args, env)));
+      }
+    }
+
+    return lift(() => this.evaluator.evaluate(node, env));
+  }
+
+  private stages(prompt: Prompt<Value>, stages: AST.ASTNode[], env: Environment): Prompt<Value> {
+    return stages.reduce((previous, s) => this.stage(previous, s, env), prompt);
+  }
+
+  private stage(prompt: Prompt<Value>, node: AST.ASTNode, env: Environment): Prompt<Value> {
+    const func = node.kind === 'application' ? node.func : node;
+    const args = node.kind === 'application' ? node.args : [];
+
+    const combinator = this.combinator(node, env);
+    if (combinator) {
+      return this.combine(combinator, prompt, args, env, node.location);
+    }
+
+    const closure = func.kind === 'identifier' ? this.prompt(func.name, env) : undefined;
+    if (closure) {
+      return pipe(prompt, value => deferred(async () =>
+        this.call(closure, [value, ...await this.evaluateAll(args, env)])
+      ));
+    }
+
+    // An ordinary stage threads the value in as the first argument, as in the evaluator
+    return pipe(prompt, value => lift(async () =>
+      this.evaluator.apply(await this.evaluator.evaluate(func, env), [value, ...await this.evaluateAll(args, env)])
+    ));
+  }
+
+  private combine(
+    name: string,
+    prompt: Prompt<Value>,
+    args: AST.ASTNode[],
+    env: Environment,
+    location: AST.Location
+  ): Prompt<Value> {
+    const arity = (COMBINATOR_TYPES.get(name) as FunctionType).params.slice(1);
+    if (args.length < arity.filter(p => !p.optional).length || args.length > arity.length) {
+      throw new EvaluationError(`${name} expects ${arity.length} arguments, got ${args.length}`, location);
+    }
+
+    switch (name) {
+      case 'validate_schema': {
+        const schemaName = args[0].kind === 'identifier' ? args[0].name : undefined;
+        const schema = schemaName && this.schemas.get(schemaName);
+        if (!schema) {
+          throw new EvaluationError('validate_schema expects the name of a schema', args[0].location);
+        }
+        return pipe(prompt, value => lift(async () => this.validate(schema, schemaName!, value, location)));
+      }
+
+      case 'retry_with_backoff':
+        return deferred(async () => retry(prompt, args.length > 0 ? this.retryOptions(await this.evaluator.evaluate(args[0], env), location) : {}));
+
+      case 'with_timeout':
+        return deferred(async () => timeout(prompt, this.expect(await this.evaluator.evaluate(args[0], env), 'number', name, location)));
+
+      case 'cached':
+        return deferred(async () => cached(prompt, this.expect(await this.evaluator.evaluate(args[0], env), 'string', name, location)));
+
+      case 'fallback':
+        return alternative(prompt, deferred(async () => this.expression(args[0], env)));
+
+      default:
+        throw new EvaluationError(`${name} cannot be used as a pipeline stage`, location);
+    }
+  }
+
+  private async ask(decl: AST.DefPrompt, text: Value): Promise<Value> {
+    if (typeof text !== 'string') {
+      throw new EvaluationError(`Prompt ${decl.name} body must produce a string`, decl.body.location);
+    }
+
+    return this.runPrompt({
+      name: decl.name,
+      prompt: text,
+      attributes: Object.fromEntries(decl.attributes.map(a => [a.name, a.value])),
+      returnType: decl.returnType
+    });
+  }
+
+  // Model responses arrive as text and are parsed against the schema, with its fixes and defaults
+  private validate(schema: Schema, name: string, value: Value, location: AST.Location): Value {
+    if (typeof value === 'string') {
+      const parsed = schema.parse(value);
+      if (parsed.success) {
+        return parsed.value;
+      }
+      throw new EvaluationError(`Response does not match schema ${name}: ${describeErrors(parsed.errors || [])}`, location);
+    }
+
+    const validation = schema.validate(value);
+    if (!validation.valid) {
+      throw new EvaluationError(`Value does not match schema ${name}: ${describeErrors(validation.errors)}`, location);
+    }
+    return value;
+  }
+
+  private retryOptions(value: Value, location: AST.Location): Parameters<typeof retry>[1] {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new EvaluationError('retry_with_backoff expects a record of options', location);
+    }
+
+    const options: Record<string, number> = {};
+    for (const [key, option] of Object.entries(value)) {
+      if (!(key in RETRY_OPTIONS)) {
+        throw new EvaluationError(`Unknown retry option: ${key}`, location);
+      }
+      options[RETRY_OPTIONS[key]] = this.expect(option, 'number', `retry option ${key}`, location);
+    }
+    return options;
+  }
+
+  private expect(value: Value, type: 'number', what: string, location: AST.Location): number;
+  private expect(value: Value, type: 'string', what: string, location: AST.Location): string;
+  private expect(value: Value, type: string, what: string, location: AST.Location): Value {
+    if (typeof value !== type) {
+      throw new EvaluationError(`${what} expects a ${type}`, location);
+    }
+    return value;
+  }
+
+  // The combinator a stage applies, unless the program binds that name itself
+  private combinator(node: AST.ASTNode, env: Environment): string | undefined {
+    const func = node.kind === 'application' ? node.func : node;
+    if (func.kind === 'identifier' && COMBINATOR_TYPES.has(func.name) && this.lookup(func.name, env) === undefined) {
+      return func.name;
+    }
+    return undefined;
+  }
+
+  private prompt(name: string, env: Environment): Closure | undefined {
+    const value = this.lookup(name, env);
+    return value instanceof Closure && value.prompt ? value : undefined;
+  }
+
+  private lookup(name: string, env: Environment): Value | undefined {
+    for (let scope: Environment | undefined = env; scope; scope = scope.parent) {
+      if (scope.bindings.has(name)) {
+        return scope.bindings.get(name);
+      }
+    }
+    return undefined;
+  }
+
+  private async evaluateAll(nodes: AST.ASTNode[], env: Environment): Promise<Value[]> {
+    const values: Value[] = [];
+    for (const node of nodes) {
+      values.push(await this.evaluator.evaluate(node, env));
+    }
+    return values;
+  }
+}
+
+// A prompt whose value is computed directly; thrown errors become error results
+function lift(compute: () => Promise<Value>): Prompt<Value> {
+  return async () => {
+    try {
+      return { kind: 'success', value: await compute() };
+    } catch (error) {
+      return { kind: 'error', error: error as Error };
+    }
+  };
+}
+
+// A prompt whose graph can only be built once it runs, e.g. because building
+// it needs evaluated arguments
+function deferred(build: () => Promise<Prompt<Value>>): Prompt<Value> {
+  return async () => {
+    let prompt: Prompt<Value>;
+    try {
+      prompt = await build();
+    } catch (error) {
+      return { kind: 'error', error: error as Error };
+    }
+    return prompt();
+  };
+}
+
+function describeErrors(errors: Array<{ path: string; message: string }>): string {
+  return errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message).join(', ');
+}
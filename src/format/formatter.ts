@@ -0,0 +1,484 @@
+import * as AST from '../ast/types';
+import { Parser } from '../parser/parser';
+
+const INDENT = '  ';
+
+const BINARY_PRECEDENCE: Record<AST.BinaryOperator, number> = {
+  'or': 1,
+  'and': 2,
+  '==': 4, '!=': 4, '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6
+};
+
+// Where an expression is printed, which decides whether it needs parentheses
+type Context = 'top' | 'head' | 'stage' | 'annotated' | 'operand' | 'arg';
+
+// Canonical pretty-printer from AST back to PromptLang source.
+//
+// Layout is fixed: pipelines put one stage per line, multi-binding lets put one
+// binding per line, case clauses, defprompt bodies and defschema fields are
+// indented one level.
+// Comments are re-attached by source offset: a comment is printed on its own
+// line before the next line-level construct that follows it, or at the end of
+// the line it originally trailed. Applications and list and record literals
+// are printed on one line unless a comment sits between their parts; then each
+// part goes on its own line, with the comment next to it.
+export class Formatter {
+  private comments: AST.Comment[];
+
+  constructor(comments: AST.Comment[] = []) {
+    this.comments = [...comments].sort((a, b) => a.location.offset - b.location.offset);
+  }
+
+  formatProgram(program: AST.Program): string {
+    const chunks: string[] = [];
+    let previous: AST.Declaration | undefined;
+
+    for (const decl of program.declarations) {
+      // Consecutive imports stay together; everything else gets a blank line between
+      const separator = previous && !(previous.kind === 'import' && decl.kind === 'import') ? '\n' : '';
+      const leading = this.leadingComments(decl.location, '');
+      chunks.push(separator + leading + this.declaration(decl) + this.trailingComment(decl.location) + '\n');
+      previous = decl;
+    }
+
+    const remaining = this.remainingComments('');
+    if (remaining) {
+      chunks.push((chunks.length > 0 ? '\n' : '') + remaining);
+    }
+
+    return chunks.join('');
+  }
+
+  formatExpression(node: AST.ASTNode): string {
+    const leading = this.leadingComments(node.location, '');
+    return leading + this.expression(node, '', 'top') + this.trailingComment(node.location) + '\n' +
+      this.remainingComments('');
+  }
+
+  private declaration(decl: AST.Declaration): string {
+    switch (decl.kind) {
+      case 'defprompt':
+        return this.defPrompt(decl, '');
+
+      case 'defschema':
+        return this.defSchema(decl);
+
+      case 'type_alias':
+        return `type ${decl.name} = ${this.type(decl.type)}`;
+
+      case 'let_declaration':
+        return this.bindings('let ', decl.bindings, '');
+
+      case 'import': {
+        const names = decl.names ? ` (${decl.names.join(', ')})` : '';
+        return `import ${this.string(decl.path)}${names}`;
+      }
+
+      case 'error':
+        throw new Error(`Cannot format source with syntax errors: ${decl.message}`);
+    }
+  }
+
+  // Prints `node` as it appears after whatever is already on the current line.
+  // `indent` is the indentation of that line, used for any continuation lines.
+  private expression(node: AST.ASTNode, indent: string, context: Context): string {
+    const text = this.expressionText(node, indent);
+    return this.needsParens(node, context) ? `(${text})` : text;
+  }
+
+  private expressionText(node: AST.ASTNode, indent: string): string {
+    switch (node.kind) {
+      case 'literal':
+        return typeof node.value === 'string' ? this.string(node.value) : String(node.value);
+
+      case 'identifier':
+        return node.name;
+
+      case 'lambda': {
+        const returnType = node.returnType ? `: ${this.type(node.returnType)}` : '';
+        const pure = node.pure ? 'pure ' : '';
+        return `${pure}(${this.parameters(node.params)})${returnType} -> ${this.expression(node.body, indent + INDENT, 'top')}`;
+      }
+
+      case 'application': {
+        const parts = [node.func, ...node.args];
+        if (this.commentedBetween(node.location, parts)) {
+          const func = this.expression(node.func, indent, 'arg');
+          return func + this.brokenParts(node.args.map(arg => ({
+            location: arg.location,
+            text: (inner: string) => this.expression(arg, inner, 'arg')
+          })), '', indent);
+        }
+        return parts.map(n => this.expression(n, indent, 'arg')).join(' ');
+      }
+
+      case 'let': {
+        const bindings = this.bindings('let ', node.bindings, indent);
+        const body = this.expression(node.body, indent + INDENT, 'top');
+        if (node.bindings.length === 1 && !bindings.includes('\n') && !body.includes('\n')) {
+          return `${bindings} in ${body}`;
+        }
+        return `${bindings}${this.trailingComment(node.bindings[node.bindings.length - 1].value.location)}\n` +
+          `${this.leadingComments(node.body.location, indent)}${indent}in ${body}`;
+      }
+
+      case 'template':
+        return this.template(node, indent);
+
+      case 'pipeline': {
+        let text = this.expression(node.stages[0], indent, 'head');
+        for (let i = 1; i < node.stages.length; i++) {
+          text += this.trailingComment(node.stages[i - 1].location) + '\n' +
+            this.leadingComments(node.stages[i].location, indent) +
+            `${indent}|> ${this.expression(node.stages[i], indent + INDENT, 'stage')}`;
+        }
+        return text;
+      }
+
+      case 'type_annotation':
+        return `${this.expression(node.expression, indent, 'annotated')} :: ${this.type(node.type)}`;
+
+      case 'defprompt':
+        return this.defPrompt(node, indent);
+
+      case 'case': {
+        const clauseIndent = indent + INDENT;
+        let text = `case ${this.expression(node.scrutinee, clauseIndent, 'top')}`;
+        let previousLocation = node.scrutinee.location;
+
+        for (const clause of node.clauses) {
+          const guard = clause.guard ? ` if ${this.expression(clause.guard, clauseIndent + INDENT, 'top')}` : '';
+          text += this.trailingComment(previousLocation) + '\n' +
+            this.leadingComments(clause.location, clauseIndent) +
+            `${clauseIndent}when ${this.pattern(clause.pattern)}${guard} => ` +
+            this.expression(clause.body, clauseIndent + INDENT, 'top');
+          previousLocation = clause.location;
+        }
+
+        return `${text}${this.trailingComment(previousLocation)}\n${indent}end`;
+      }
+
+      case 'list_literal':
+        if (this.commentedBetween(node.location, node.elements)) {
+          return '[' + this.brokenParts(node.elements.map(e => ({
+            location: e.location,
+            text: (inner: string) => this.expression(e, inner + INDENT, 'top')
+          })), ',', indent) + this.closingComments(node.location, indent) + `\n${indent}]`;
+        }
+        return `[${node.elements.map(e => this.expression(e, indent + INDENT, 'top')).join(', ')}]`;
+
+      case 'record_literal':
+        if (this.commentedBetween(node.location, node.fields.map(f => f.value))) {
+          return '{' + this.brokenParts(node.fields.map(f => ({
+            location: f.value.location,
+            text: (inner: string) => `${f.name}: ${this.expression(f.value, inner + INDENT, 'top')}`
+          })), ',', indent) + this.closingComments(node.location, indent) + `\n${indent}}`;
+        }
+        return `{${node.fields.map(f => `${f.name}: ${this.expression(f.value, indent + INDENT, 'top')}`).join(', ')}}`;
+
+      case 'field_access':
+        return `${this.expression(node.object, indent, 'arg')}.${node.field}`;
+
+      case 'binary': {
+        const precedence = BINARY_PRECEDENCE[node.operator];
+        const left = this.operand(node.left, indent, precedence, false);
+        const right = this.operand(node.right, indent, precedence, true);
+        return `${left} ${node.operator} ${right}`;
+      }
+
+      case 'unary':
+        if (node.operator === 'not') {
+          // `not` takes a whole comparison, so only and/or operands need grouping
+          const operand = node.operand.kind === 'binary' && BINARY_PRECEDENCE[node.operand.operator] < 4
+            ? `(${this.expressionText(node.operand, indent)})`
+            : this.expression(node.operand, indent, 'operand');
+          return `not ${operand}`;
+        }
+        return `-${this.operand(node.operand, indent, Infinity, false)}`;
+
+      case 'error':
+        throw new Error(`Cannot format source with syntax errors: ${node.message}`);
+    }
+  }
+
+  private operand(node: AST.ASTNode, indent: string, precedence: number, isRight: boolean): string {
+    if (node.kind === 'binary') {
+      const child = BINARY_PRECEDENCE[node.operator];
+      // Operators are left-associative, so an equal-precedence right operand needs grouping
+      if (child < precedence || (isRight && child === precedence)) {
+        return `(${this.expressionText(node, indent)})`;
+      }
+      return this.expressionText(node, indent);
+    }
+    // `not` swallows a whole comparison, and `- -x` would read as one token pair
+    if (node.kind === 'unary' && (precedence === Infinity || (node.operator === 'not' && precedence > 2))) {
+      return `(${this.expressionText(node, indent)})`;
+    }
+    return this.expression(node, indent, 'operand');
+  }
+
+  private needsParens(node: AST.ASTNode, context: Context): boolean {
+    switch (context) {
+      case 'top':
+        return false;
+
+      // Lambdas and lets extend as far right as possible, while `|>` and `::`
+      // associate left, so only the first stage or the annotated expression may
+      // be one of those without parentheses
+      case 'head':
+        return node.kind === 'lambda' || node.kind === 'let' || node.kind === 'pipeline';
+
+      case 'annotated':
+        return node.kind === 'lambda' || node.kind === 'let';
+
+      case 'stage':
+        return node.kind === 'lambda' || node.kind === 'let' ||
+          node.kind === 'pipeline' || node.kind === 'type_annotation';
+
+      case 'operand':
+        return node.kind === 'lambda' || node.kind === 'let' ||
+          node.kind === 'pipeline' || node.kind === 'type_annotation';
+
+      // Application arguments must be primary expressions
+      case 'arg':
+        return !(node.kind === 'literal' || node.kind === 'identifier' ||
+          node.kind === 'list_literal' || node.kind === 'record_literal' ||
+          node.kind === 'field_access' || node.kind === 'template');
+    }
+  }
+
+  // `let a = 1,\n    b = 2`: one binding per line, aligned after the keyword
+  private bindings(keyword: string, bindings: AST.Binding[], indent: string): string {
+    const bindingIndent = indent + ' '.repeat(keyword.length);
+
+    return bindings.map((binding, i) => {
+      const prefix = i === 0 ? keyword : this.leadingComments(binding.value.location, bindingIndent) + bindingIndent;
+      const value = this.expression(binding.value, bindingIndent + INDENT, 'top');
+      const separator = i < bindings.length - 1 ? ',' + this.trailingComment(binding.value.location) + '\n' : '';
+      return `${prefix}${binding.name} = ${value}${separator}`;
+    }).join('');
+  }
+
+  private defPrompt(node: AST.DefPrompt, indent: string): string {
+    const bodyIndent = indent + INDENT;
+    const returnType = node.returnType ? ` :: ${this.type(node.returnType)}` : '';
+    let text = `defprompt ${node.name}(${this.parameters(node.params)})${returnType} do\n`;
+
+    for (const attribute of node.attributes) {
+      const value = typeof attribute.value === 'string' ? this.string(attribute.value) : String(attribute.value);
+      text += this.leadingComments(attribute.location, bodyIndent) +
+        `${bodyIndent}@${attribute.name} ${value}${this.trailingComment(attribute.location)}\n`;
+    }
+
+    text += this.leadingComments(node.body.location, bodyIndent) +
+      `${bodyIndent}${this.expression(node.body, bodyIndent, 'top')}${this.trailingComment(node.body.location)}\n`;
+
+    return `${text}${indent}end`;
+  }
+
+  private defSchema(node: AST.DefSchema): string {
+    const description = node.description !== undefined ? ` ${this.string(node.description)}` : '';
+    let text = `defschema ${node.name}${description} do\n`;
+
+    for (const field of node.fields) {
+      let line = `${field.name}: ${this.type(field.type)}`;
+      if (field.required) {
+        line += ' required';
+      }
+      if (field.default) {
+        line += ` = ${this.expression(field.default, INDENT, 'top')}`;
+      }
+      if (field.description !== undefined) {
+        line += ` ${this.string(field.description)}`;
+      }
+      text += this.leadingComments(field.location, INDENT) + `${INDENT}${line}${this.trailingComment(field.location)}\n`;
+    }
+
+    return `${text}end`;
+  }
+
+  private parameters(params: AST.Parameter[]): string {
+    return params.map(p => {
+      const type = p.type ? `: ${this.type(p.type)}` : '';
+      const defaultValue = p.defaultValue ? ` = ${this.expression(p.defaultValue, '', 'top')}` : '';
+      return `${p.name}${type}${defaultValue}`;
+    }).join(', ');
+  }
+
+  private pattern(pattern: AST.Pattern): string {
+    switch (pattern.kind) {
+      case 'literal_pattern':
+        return typeof pattern.value === 'string' ? this.string(pattern.value) : String(pattern.value);
+      case 'variable_pattern':
+        return pattern.name;
+      case 'wildcard_pattern':
+        return '_';
+      case 'record_pattern':
+        return `{${pattern.fields.map(f =>
+          f.pattern.kind === 'variable_pattern' && f.pattern.name === f.name
+            ? f.name
+            : `${f.name}: ${this.pattern(f.pattern)}`
+        ).join(', ')}}`;
+      case 'list_pattern':
+        return `[${pattern.elements.map(e => this.pattern(e)).join(', ')}]`;
+    }
+  }
+
+  private type(type: AST.Type): string {
+    if (type.alias) {
+      return type.alias;
+    }
+
+    switch (type.kind) {
+      case 'primitive':
+        return type.name;
+
+      case 'list':
+        return `list[${this.type(type.element)}]`;
+
+      case 'record':
+        return `record{${type.fields.map(f => `${f.name}: ${this.type(f.type)}${f.optional ? '?' : ''}`).join(', ')}}`;
+
+      case 'function': {
+        const params = type.params.map(p => `${p.name}: ${this.type(p.type)}${p.optional ? '?' : ''}`);
+        const pure = type.effects?.length === 0 ? 'pure ' : '';
+        return `${pure}(${params.join(', ')}) -> ${this.type(type.returns)}`;
+      }
+
+      case 'union':
+        return type.types.map(t => this.typeMember(t, 'union')).join(' | ');
+
+      case 'intersection':
+        return type.types.map(t => this.typeMember(t, 'intersection')).join(' & ');
+
+      case 'prompt': {
+        const extras: string[] = [];
+        if (type.model !== undefined || type.temperature !== undefined) {
+          extras.push(type.model !== undefined ? this.string(type.model) : '');
+        }
+        if (type.temperature !== undefined) {
+          extras.push(String(type.temperature));
+        }
+        return `prompt[(${this.type(type.input)}, ${this.type(type.output)})${extras.map(e => `, ${e}`).join('')}]`;
+      }
+
+      case 'dynamic':
+        return type.constraint ? `dynamic[${this.type(type.constraint)}]` : 'dynamic';
+
+      case 'any':
+      case 'never':
+        return type.kind;
+
+      // Inference variables only exist inside the type checker
+      case 'var':
+        return 'dynamic';
+    }
+  }
+
+  // Function types and looser-binding operators inside | and & need grouping
+  private typeMember(type: AST.Type, within: 'union' | 'intersection'): string {
+    const text = this.type(type);
+    if (type.alias) {
+      return text;
+    }
+    if (type.kind === 'function' || type.kind === 'union' ||
+        (type.kind === 'intersection' && within === 'intersection')) {
+      return `(${text})`;
+    }
+    return text;
+  }
+
+  // Triple-quoted text is kept verbatim; multi-line blocks are re-indented one
+  // level, which the parser's dedent strips again
+  private template(node: AST.Template, indent: string): string {
+    const body = node.parts.map(part => part.kind === 'text'
+      ? (node.block ? part.value.replace(/\{\{/g, '\\{{') : this.string(part.value).slice(1, -1))
+      : `{{ ${this.expression(part.expression, indent + INDENT, 'top')} }}`
+    ).join('');
+
+    if (!node.block) {
+      return `"${body}"`;
+    }
+    if (!node.parts.some(part => part.kind === 'text' && part.value.includes('\n'))) {
+      return `"""${body}"""`;
+    }
+
+    const lines = body.split('\n').map(line => line ? indent + INDENT + line : line);
+    return `"""\n${lines.join('\n')}\n${indent + INDENT}"""`;
+  }
+
+  private string(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\t/g, '\\t')
+      .replace(/\r/g, '\\r')
+      .replace(/\{\{/g, '\\{{');
+    return `"${escaped}"`;
+  }
+
+  // Whether a comment inside `location` falls between `parts` rather than within one of them
+  private commentedBetween(location: AST.Location, parts: AST.ASTNode[]): boolean {
+    return this.comments.some(c => {
+      const offset = c.location.offset;
+      return offset > location.offset && offset < location.end.offset &&
+        !parts.some(p => offset >= p.location.offset && offset < p.location.end.offset);
+    });
+  }
+
+  // Each part on its own line one level in, with its comments
+  private brokenParts(
+    parts: Array<{ location: AST.Location; text: (indent: string) => string }>,
+    separator: string,
+    indent: string
+  ): string {
+    const inner = indent + INDENT;
+    return parts.map((part, i) => '\n' + this.leadingComments(part.location, inner) + inner + part.text(inner) +
+      (i < parts.length - 1 ? separator : '') + this.trailingComment(part.location)).join('');
+  }
+
+  // Comments after the last part of a bracketed construct, before its closing bracket
+  private closingComments(location: AST.Location, indent: string): string {
+    const text = this.commentsBefore(location.end.offset, indent + INDENT);
+    return text ? '\n' + text.trimEnd() : '';
+  }
+
+  // Own-line comments that appear in the source before `location`
+  private leadingComments(location: AST.Location, indent: string): string {
+    return this.commentsBefore(location.offset, indent);
+  }
+
+  private commentsBefore(offset: number, indent: string): string {
+    let text = '';
+    while (this.comments.length > 0 && this.comments[0].location.offset < offset) {
+      text += `${indent}${this.comments.shift()!.text}\n`;
+    }
+    return text;
+  }
+
+  // A comment on the same source line, just after `location` ends
+  private trailingComment(location: AST.Location): string {
+    const next = this.comments[0];
+    if (next && next.location.line === location.end.line && next.location.offset >= location.end.offset) {
+      this.comments.shift();
+      return ` ${next.text}`;
+    }
+    return '';
+  }
+
+  private remainingComments(indent: string): string {
+    const text = this.comments.map(c => `${indent}${c.text}\n`).join('');
+    this.comments = [];
+    return text;
+  }
+}
+
+// Format PromptLang source text into its canonical layout
+export function format(source: string, file?: string): string {
+  const parser = new Parser(source, { file });
+  const program = parser.parseProgram();
+  return new Formatter(parser.getComments()).formatProgram(program);
+}
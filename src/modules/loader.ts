@@ -0,0 +1,123 @@
+import { Import, Program } from '../ast/types';
+import { Parser } from '../parser/parser';
+import { TypeChecker, TypeError } from '../types/checker';
+import { Schema } from '../types/schema';
+import { Type } from '../types/types';
+import { ModuleError, ModuleResolver } from './resolver';
+
+// Everything a module declares at the top level is exported
+export interface ModuleExports {
+  types: Map<string, Type>;
+  values: Map<string, Type>;
+  schemas: Map<string, Schema>;
+}
+
+export interface Module {
+  id: string;
+  program: Program;
+  exports: ModuleExports;
+  errors: TypeError[];
+}
+
+// Parses and type checks a module and, depth first, everything it imports.
+// Each module is loaded once per loader; importing a module that is still
+// being loaded is a cycle and fails with the chain of module ids.
+export class ModuleLoader {
+  private modules: Map<string, Module> = new Map();
+  private loading: string[] = [];
+
+  constructor(private resolver: ModuleResolver) {}
+
+  load(specifier: string, from?: string): Module {
+    const id = this.resolver.resolve(specifier, from);
+
+    const cached = this.modules.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.loading.includes(id)) {
+      const chain = [...this.loading.slice(this.loading.indexOf(id)), id];
+      throw new ModuleError(`Import cycle: ${chain.join(' -> ')}`, chain);
+    }
+
+    this.loading.push(id);
+    try {
+      const module = this.compile(id, this.resolver.read(id));
+      this.modules.set(id, module);
+      return module;
+    } finally {
+      this.loading.pop();
+    }
+  }
+
+  private compile(id: string, source: string): Module {
+    const importedValues = new Map<string, Type>();
+
+    const parser = new Parser(source, {
+      file: id,
+      importTypes: declaration => {
+        const imported = this.importsOf(this.load(declaration.path, id), declaration);
+        for (const [name, type] of imported.values) {
+          importedValues.set(name, type);
+        }
+        return imported.types;
+      }
+    });
+    const program = parser.parseProgram();
+
+    const checker = new TypeChecker();
+    const env = checker.checkProgram(program, checker.extendEnvironment(importedValues));
+
+    const types = new Map<string, Type>();
+    const schemas = new Map<string, Schema>();
+    for (const decl of program.declarations) {
+      if (decl.kind === 'type_alias') {
+        types.set(decl.name, decl.type);
+      } else if (decl.kind === 'defschema') {
+        const schema = Schema.fromDeclaration(decl);
+        schemas.set(decl.name, schema);
+        types.set(decl.name, schema.toType());
+      }
+    }
+
+    return {
+      id,
+      program,
+      exports: { types, values: env.bindings, schemas },
+      errors: checker.getErrors()
+    };
+  }
+
+  // The part of a module's exports named by an import (all of them when no names are listed)
+  private importsOf(module: Module, declaration: Import): ModuleExports {
+    if (!declaration.names) {
+      return module.exports;
+    }
+
+    const types = new Map<string, Type>();
+    const values = new Map<string, Type>();
+    const schemas = new Map<string, Schema>();
+
+    for (const name of declaration.names) {
+      const type = module.exports.types.get(name);
+      const value = module.exports.values.get(name);
+      const schema = module.exports.schemas.get(name);
+
+      if (!type && !value) {
+        throw new ModuleError(`Module ${module.id} has no export named ${name}`);
+      }
+      if (type) {
+        types.set(name, type);
+      }
+      if (value) {
+        values.set(name, value);
+      }
+      if (schema) {
+        schemas.set(name, schema);
+      }
+    }
+
+    return { types, values, schemas };
+  }
+}
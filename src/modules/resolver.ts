@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Maps an import path to a canonical module id and loads that module's source
+export interface ModuleResolver {
+  // `from` is the id of the importing module; omitted for the entry module
+  resolve(specifier: string, from?: string): string;
+  read(id: string): string;
+}
+
+export class ModuleError extends Error {
+  constructor(message: string, public chain: string[] = []) {
+    super(message);
+    this.name = 'ModuleError';
+  }
+}
+
+// Resolves paths relative to the importing file, falling back to a base directory
+export class FileSystemResolver implements ModuleResolver {
+  constructor(private baseDir: string = process.cwd()) {}
+
+  resolve(specifier: string, from?: string): string {
+    return path.resolve(from ? path.dirname(from) : this.baseDir, specifier);
+  }
+
+  read(id: string): string {
+    try {
+      return fs.readFileSync(id, 'utf8');
+    } catch (error) {
+      throw new ModuleError(`Cannot read module ${id}: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Serves modules from a map of path to source, using '/'-separated paths
+export class InMemoryResolver implements ModuleResolver {
+  private modules: Map<string, string>;
+
+  constructor(modules: Record<string, string> | Map<string, string> = {}) {
+    this.modules = new Map();
+    const entries = modules instanceof Map ? modules.entries() : Object.entries(modules);
+    for (const [id, source] of entries) {
+      this.modules.set(this.resolve(id), source);
+    }
+  }
+
+  add(id: string, source: string): this {
+    this.modules.set(this.resolve(id), source);
+    return this;
+  }
+
+  resolve(specifier: string, from?: string): string {
+    return path.posix.resolve(from ? path.posix.dirname(from) : '/', specifier);
+  }
+
+  read(id: string): string {
+    const source = this.modules.get(id);
+    if (source === undefined) {
+      throw new ModuleError(`Module not found: ${id}`);
+    }
+    return source;
+  }
+}
@@ -0,0 +1,749 @@
+import * as AST from '../ast/types';
+import { children, mapChildren } from '../ast/visitor';
+import { clone } from '../ast/serialize';
+import { constantValue } from '../types/schema';
+import { BuiltinRegistry, standardLibrary } from '../stdlib/builtins';
+
+export interface OptimizerOptions {
+  // Lambdas whose body has at most this many nodes are inlined at every call (default 8)
+  inlineSize?: number;
+  // Builtins; those without effects are evaluated when all their arguments are constant
+  builtins?: BuiltinRegistry;
+}
+
+// What the optimizer knows about a name in scope
+type Known =
+  | { kind: 'constant'; node: AST.ASTNode }
+  | { kind: 'lambda'; node: AST.Lambda; scope: Scope }
+  | { kind: 'opaque' };
+
+interface Scope {
+  bindings: Map<string, Known>;
+  // Names not listed may be bound too, e.g. by an import of a whole module
+  open?: boolean;
+  parent?: Scope;
+}
+
+// Thrown while substituting when the substituted expression would be captured
+const CAPTURED = Symbol('captured');
+
+// AST-to-AST optimizer. It never changes what a program computes, only how
+// much work is left for run time:
+//
+// - constant expressions, including calls of builtins on constants, are folded
+// - constant interpolations become template text, so fully constant templates
+//   (and prompt bodies) are rendered ahead of time
+// - `let` bindings of constants are propagated and single-use bindings inlined;
+//   bindings left unused are removed when evaluating them has no effect
+// - small lambdas are inlined at calls and as pipeline stages, and adjacent
+//   lambda stages are fused into one
+//
+// Calls that may reach a model are never duplicated or removed, since each
+// one costs a request.
+export class Optimizer {
+  private inlineSize: number;
+  private builtins: BuiltinRegistry;
+  private functions: Map<string, Function>;
+  // Known lambdas currently being inlined, so recursive ones are not unrolled forever
+  private inlining = new Set<AST.Lambda>();
+
+  constructor(options: OptimizerOptions = {}) {
+    this.inlineSize = options.inlineSize ?? 8;
+    this.builtins = options.builtins || standardLibrary;
+    this.functions = this.builtins.functions();
+  }
+
+  optimize(node: AST.ASTNode): AST.ASTNode {
+    return this.expression(node, { bindings: new Map() });
+  }
+
+  // Top-level bindings are kept, since other modules may import them, but
+  // their constant values are propagated into the declarations that follow
+  optimizeProgram(program: AST.Program): AST.Program {
+    const scope: Scope = { bindings: new Map() };
+
+    // Top-level names are looked up when used, so a name bound twice is not a constant
+    const bindCounts = new Map<string, number>();
+    const count = (name: string) => bindCounts.set(name, (bindCounts.get(name) || 0) + 1);
+    for (const decl of program.declarations) {
+      if (decl.kind === 'let_declaration') {
+        decl.bindings.forEach(b => count(b.name));
+      } else if (decl.kind === 'defprompt') {
+        count(decl.name);
+      } else if (decl.kind === 'import') {
+        if (decl.names) {
+          decl.names.forEach(name => scope.bindings.set(name, { kind: 'opaque' }));
+        } else {
+          scope.open = true;
+        }
+      }
+    }
+    // ...and one bound further down already hides a builtin of the same name
+    bindCounts.forEach((_, name) => scope.bindings.set(name, { kind: 'opaque' }));
+
+    const declarations = program.declarations.map((decl): AST.Declaration => {
+      switch (decl.kind) {
+        case 'defprompt':
+          scope.bindings.set(decl.name, { kind: 'opaque' });
+          return this.defprompt(decl, scope);
+
+        case 'let_declaration':
+          return {
+            ...decl,
+            bindings: decl.bindings.map(binding => {
+              const value = this.expression(binding.value, scope);
+              scope.bindings.set(binding.name, bindCounts.get(binding.name) === 1
+                ? this.know(binding.name, value, scope)
+                : { kind: 'opaque' });
+              return { ...binding, value };
+            })
+          };
+
+        default:
+          return decl;
+      }
+    });
+
+    return { ...program, declarations };
+  }
+
+  private expression(node: AST.ASTNode, scope: Scope): AST.ASTNode {
+    switch (node.kind) {
+      case 'literal':
+      case 'error':
+        return node;
+
+      case 'identifier': {
+        const known = this.lookup(node.name, scope);
+        return known?.kind === 'constant' ? clone(known.node) : node;
+      }
+
+      case 'lambda':
+        return this.lambda(node, scope);
+
+      case 'defprompt':
+        return this.defprompt(node, scope);
+
+      case 'application': {
+        const func = this.expression(node.func, scope);
+        const args = node.args.map(arg => this.expression(arg, scope));
+        return this.call(func, args, scope, node.location) || { ...node, func, args };
+      }
+
+      case 'pipeline':
+        return this.pipeline(node, scope);
+
+      case 'let':
+        return this.let(node, scope);
+
+      case 'template':
+        return this.template(node, scope);
+
+      case 'case':
+        return {
+          ...node,
+          scrutinee: this.expression(node.scrutinee, scope),
+          clauses: node.clauses.map(clause => {
+            const inner = this.bind(scope, patternVariables(clause.pattern));
+            return {
+              ...clause,
+              guard: clause.guard && this.expression(clause.guard, inner),
+              body: this.expression(clause.body, inner)
+            };
+          })
+        };
+
+      case 'field_access': {
+        const object = this.expression(node.object, scope);
+        if (object.kind === 'record_literal') {
+          const field = object.fields.find(f => f.name === node.field);
+          if (field && isConstant(object)) {
+            return field.value;
+          }
+        } else if (isConstant(object)) {
+          // Method-style call on a constant, e.g. "text".length
+          const folded = this.fold(node.field, [object], scope, node.location);
+          if (folded) {
+            return folded;
+          }
+        }
+        return { ...node, object };
+      }
+
+      case 'binary':
+        return this.binary(node, scope);
+
+      case 'unary': {
+        const operand = this.expression(node.operand, scope);
+        if (operand.kind === 'literal') {
+          if (node.operator === '-' && typeof operand.value === 'number') {
+            return { kind: 'literal', value: -operand.value, location: node.location };
+          }
+          if (node.operator === 'not' && typeof operand.value === 'boolean') {
+            return { kind: 'literal', value: !operand.value, location: node.location };
+          }
+        }
+        return { ...node, operand };
+      }
+
+      case 'list_literal':
+      case 'record_literal':
+      case 'type_annotation':
+        return mapChildren(node, child => this.expression(child, scope));
+    }
+  }
+
+  private lambda(node: AST.Lambda, scope: Scope): AST.Lambda {
+    return {
+      ...node,
+      params: this.parameters(node.params, scope),
+      body: this.expression(node.body, this.bind(scope, node.params.map(p => p.name)))
+    };
+  }
+
+  private defprompt(node: AST.DefPrompt, scope: Scope): AST.DefPrompt {
+    return {
+      ...node,
+      params: this.parameters(node.params, scope),
+      body: this.expression(node.body, this.bind(scope, node.params.map(p => p.name)))
+    };
+  }
+
+  // Defaults are evaluated where the function is defined
+  private parameters(params: AST.Parameter[], scope: Scope): AST.Parameter[] {
+    return params.map(p => p.defaultValue ? { ...p, defaultValue: this.expression(p.defaultValue, scope) } : p);
+  }
+
+  // A call with optimized operands, reduced when the function is a lambda that
+  // can be inlined or a builtin applied to constants
+  private call(func: AST.ASTNode, args: AST.ASTNode[], scope: Scope, location: AST.Location): AST.ASTNode | undefined {
+    if (func.kind === 'lambda' && func.params.length === args.length) {
+      return this.beta(func, args, scope, location);
+    }
+
+    if (func.kind === 'identifier') {
+      const known = this.lookup(func.name, scope);
+      if (known?.kind === 'lambda' && known.node.params.length === args.length && this.canInline(known, scope)) {
+        this.inlining.add(known.node);
+        try {
+          return this.beta(clone(known.node), args, scope, location);
+        } finally {
+          this.inlining.delete(known.node);
+        }
+      }
+      return this.fold(func.name, args, scope, location);
+    }
+
+    return undefined;
+  }
+
+  // ((x, y) -> body) a b  ~>  let x = a, y = b in body, unless an argument
+  // names a parameter bound before it, which the sequential let would capture
+  private beta(lambda: AST.Lambda, args: AST.ASTNode[], scope: Scope, location: AST.Location): AST.ASTNode | undefined {
+    if (args.some((arg, i) => lambda.params.slice(0, i).some(p => freeVariables(arg).has(p.name)))) {
+      return undefined;
+    }
+    return this.expression({
+      kind: 'let',
+      bindings: lambda.params.map((p, i) => ({ name: p.name, value: args[i] })),
+      body: lambda.body,
+      location
+    }, scope);
+  }
+
+  // A known lambda can be inlined where its free names still mean what they did where it was defined
+  private canInline(known: Extract<Known, { kind: 'lambda' }>, scope: Scope): boolean {
+    return !this.inlining.has(known.node) &&
+      Array.from(freeVariables(known.node)).every(name => this.resolve(name, scope) === this.resolve(name, known.scope));
+  }
+
+  private pipeline(node: AST.Pipeline, scope: Scope): AST.ASTNode {
+    const stages = node.stages.map(stage => this.expression(stage, scope));
+
+    // Apply stages to the value flowing in for as long as they reduce
+    let head = stages[0];
+    let rest = stages.slice(1);
+    while (rest.length > 0) {
+      const stage = rest[0];
+      const func = stage.kind === 'application' ? stage.func : stage;
+      const args = stage.kind === 'application' ? [head, ...stage.args] : [head];
+      const reduced = this.call(func, args, scope, node.location);
+      if (!reduced) {
+        break;
+      }
+      head = reduced;
+      rest = rest.slice(1);
+    }
+
+    rest = this.fuse(rest, scope);
+    return rest.length === 0 ? head : { ...node, stages: [head, ...rest] };
+  }
+
+  // x |> (a) -> f a |> (b) -> g b  ~>  x |> (a) -> let b = f a in g b
+  private fuse(stages: AST.ASTNode[], scope: Scope): AST.ASTNode[] {
+    const result: AST.ASTNode[] = [];
+
+    for (const stage of stages) {
+      const previous = result[result.length - 1];
+      if (previous && isUnary(previous) && isUnary(stage)) {
+        const param = previous.params[0].name;
+        if (!freeVariables(stage).has(param)) {
+          result[result.length - 1] = this.lambda({
+            ...previous,
+            returnType: stage.returnType,
+            pure: previous.pure && stage.pure,
+            body: {
+              kind: 'let',
+              bindings: [{ name: stage.params[0].name, value: previous.body }],
+              body: stage.body,
+              location: stage.location
+            }
+          }, scope);
+          continue;
+        }
+      }
+      result.push(stage);
+    }
+
+    return result;
+  }
+
+  private let(node: AST.Let, scope: Scope): AST.ASTNode {
+    // Bindings are sequential: each value sees the bindings before it
+    let inner = scope;
+    const bindings = node.bindings.map(b => {
+      const value = this.expression(b.value, inner);
+      inner = { bindings: new Map([[b.name, this.know(b.name, value, inner)]]), parent: inner };
+      return { ...b, value };
+    });
+    let body = this.expression(node.body, inner);
+
+    const names = new Set(bindings.map(b => b.name));
+    const kept: AST.Binding[] = [];
+    let substituted = false;
+
+    for (const [i, binding] of bindings.entries()) {
+      // Uses up to the next binding of the same name, which hides this one
+      const later = bindings.slice(i + 1);
+      const rebound = later.findIndex(b => b.name === binding.name);
+      const laterUses = later.slice(0, rebound === -1 ? later.length : rebound + 1)
+        .reduce((total, b) => total + occurrences(b.value, binding.name).count, 0);
+      const uses = rebound === -1 ? occurrences(body, binding.name) : { count: 0, deferred: false };
+      const pure = isPure(binding.value);
+
+      if (uses.count + laterUses === 0 && pure) {
+        continue;
+      }
+
+      // Inline a single use, unless that would run an effect a different number
+      // of times or move it past another call
+      const free = freeVariables(binding.value);
+      const inPlace = pure || (!uses.deferred &&
+        later.every(b => isPure(b.value)) && !callBefore(body, binding.name));
+      if (uses.count === 1 && laterUses === 0 && inPlace && !Array.from(free).some(name => names.has(name))) {
+        try {
+          body = substitute(body, binding.name, binding.value, free);
+          substituted = true;
+          continue;
+        } catch (error) {
+          if (error !== CAPTURED) {
+            throw error;
+          }
+        }
+      }
+
+      kept.push(binding);
+    }
+
+    // The inlined values may fold further with their new surroundings
+    if (substituted) {
+      body = this.expression(body, this.bind(scope, kept.map(b => b.name)));
+    }
+
+    return kept.length === 0 ? body : { ...node, bindings: kept, body };
+  }
+
+  private template(node: AST.Template, scope: Scope): AST.ASTNode {
+    const parts: AST.TemplatePart[] = [];
+    const addText = (value: string) => {
+      const last = parts[parts.length - 1];
+      if (last?.kind === 'text') {
+        parts[parts.length - 1] = { kind: 'text', value: last.value + value };
+      } else if (value !== '') {
+        parts.push({ kind: 'text', value });
+      }
+    };
+
+    for (const part of node.parts) {
+      if (part.kind === 'text') {
+        addText(part.value);
+        continue;
+      }
+
+      const expression = this.expression(part.expression, scope);
+      if (isConstant(expression)) {
+        addText(toText(constantValue(expression)));
+      } else if (expression.kind === 'template') {
+        // A nested template renders to its own parts
+        expression.parts.forEach(p => p.kind === 'text' ? addText(p.value) : parts.push(p));
+      } else if (expression.kind === 'literal') {
+        addText(toText(expression.value));
+      } else {
+        parts.push({ kind: 'interpolation', expression });
+      }
+    }
+
+    if (parts.every(p => p.kind === 'text')) {
+      return { kind: 'literal', value: parts.map(p => (p as { value: string }).value).join(''), location: node.location };
+    }
+    return { ...node, parts };
+  }
+
+  private binary(node: AST.BinaryOperation, scope: Scope): AST.ASTNode {
+    const left = this.expression(node.left, scope);
+    const right = this.expression(node.right, scope);
+    const rebuilt = { ...node, left, right };
+
+    // The right operand of a short-circuiting operator is skipped without being evaluated
+    if ((node.operator === 'and' || node.operator === 'or') && left.kind === 'literal' && typeof left.value === 'boolean') {
+      const shortCircuits = node.operator === 'and' ? !left.value : left.value;
+      if (shortCircuits) {
+        return left;
+      }
+      return right.kind === 'literal' && typeof right.value === 'boolean' ? right : rebuilt;
+    }
+
+    if (!isConstant(left) || !isConstant(right)) {
+      return rebuilt;
+    }
+
+    const a: any = constantValue(left);
+    const b: any = constantValue(right);
+    const numbers = typeof a === 'number' && typeof b === 'number';
+    const strings = typeof a === 'string' && typeof b === 'string';
+    let value: unknown;
+
+    switch (node.operator) {
+      case '==': value = valuesEqual(a, b); break;
+      case '!=': value = !valuesEqual(a, b); break;
+      case '+': value = numbers ? a + b : strings ? a + b : undefined; break;
+      case '-': value = numbers ? a - b : undefined; break;
+      case '*': value = numbers ? a * b : undefined; break;
+      case '/': value = numbers ? a / b : undefined; break;
+      case '<': value = numbers || strings ? a < b : undefined; break;
+      case '>': value = numbers || strings ? a > b : undefined; break;
+      case '<=': value = numbers || strings ? a <= b : undefined; break;
+      case '>=': value = numbers || strings ? a >= b : undefined; break;
+    }
+
+    // Operations that fail at run time are left for the evaluator to report
+    return toNode(value, node.location) || rebuilt;
+  }
+
+  // A pure builtin applied to constants, evaluated now
+  private fold(name: string, args: AST.ASTNode[], scope: Scope, location: AST.Location): AST.ASTNode | undefined {
+    const fn = this.functions.get(name);
+    const builtin = this.builtins.get(name);
+    if (!fn || !builtin || this.resolve(name, scope) ||
+        args.length !== builtin.type.params.length || !args.every(isConstant)) {
+      return undefined;
+    }
+
+    try {
+      const value = fn(...args.map(constantValue));
+      return value instanceof Promise ? undefined : toNode(value, location);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private know(name: string, value: AST.ASTNode, scope: Scope): Known {
+    if (isConstant(value)) {
+      return { kind: 'constant', node: value };
+    }
+    if (value.kind === 'lambda' && size(value.body) <= this.inlineSize && !freeVariables(value).has(name)) {
+      return { kind: 'lambda', node: value, scope };
+    }
+    return { kind: 'opaque' };
+  }
+
+  private bind(scope: Scope, names: string[]): Scope {
+    return { bindings: new Map(names.map(name => [name, { kind: 'opaque' }])), parent: scope };
+  }
+
+  private lookup(name: string, scope: Scope): Known | undefined {
+    const binder = this.resolve(name, scope);
+    return binder?.bindings.get(name);
+  }
+
+  // The scope that binds a name, or undefined for builtins and unbound names
+  private resolve(name: string, scope: Scope): Scope | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.bindings.has(name) || current.open) {
+        return current;
+      }
+    }
+    return undefined;
+  }
+}
+
+export function optimize(program: AST.Program, options?: OptimizerOptions): AST.Program {
+  return new Optimizer(options).optimizeProgram(program);
+}
+
+function isConstant(node: AST.ASTNode): boolean {
+  switch (node.kind) {
+    case 'literal':
+      return true;
+    case 'list_literal':
+      return node.elements.every(isConstant);
+    case 'record_literal':
+      return node.fields.every(f => isConstant(f.value));
+    default:
+      return false;
+  }
+}
+
+// Evaluating the node cannot call a function, and so cannot reach a model
+function isPure(node: AST.ASTNode): boolean {
+  switch (node.kind) {
+    case 'lambda':
+      return node.params.every(p => !p.defaultValue || isPure(p.defaultValue));
+    case 'application':
+    case 'pipeline':
+    case 'field_access': // may be a method-style call
+    case 'defprompt':
+    case 'error':
+      return false;
+    default:
+      return children(node).every(child => isPure(child as AST.ASTNode));
+  }
+}
+
+function isUnary(node: AST.ASTNode): node is AST.Lambda {
+  return node.kind === 'lambda' && node.params.length === 1 && !node.params[0].defaultValue;
+}
+
+// A constant AST for a value, if the language can write it
+function toNode(value: unknown, location: AST.Location): AST.ASTNode | undefined {
+  if (typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))) {
+    return { kind: 'literal', value, location };
+  }
+  if (Array.isArray(value)) {
+    const elements = value.map(v => toNode(v, location));
+    return elements.every(e => e) ? { kind: 'list_literal', elements: elements as AST.ASTNode[], location } : undefined;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const fields = Object.entries(value).map(([name, v]) => ({ name, value: toNode(v, location) }));
+    return fields.every(f => f.value)
+      ? { kind: 'record_literal', fields: fields as AST.RecordLiteralField[], location }
+      : undefined;
+  }
+  return undefined;
+}
+
+// How an interpolated value appears in rendered text, as in the evaluator
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (a !== null && b !== null && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && valuesEqual((a as any)[key], (b as any)[key]));
+  }
+  return false;
+}
+
+function size(node: AST.ASTNode): number {
+  return 1 + children(node).reduce((total, child) => total + size(child as AST.ASTNode), 0);
+}
+
+function patternVariables(pattern: AST.Pattern): string[] {
+  switch (pattern.kind) {
+    case 'variable_pattern':
+      return [pattern.name];
+    case 'record_pattern':
+      return pattern.fields.flatMap(f => patternVariables(f.pattern));
+    case 'list_pattern':
+      return pattern.elements.flatMap(patternVariables);
+    default:
+      return [];
+  }
+}
+
+// The names a construct binds for its body, or undefined when it binds none.
+// Lets bind a name for every part after it, as described by `letParts`.
+function binders(node: AST.ASTNode): { names: string[]; scoped: AST.ASTNode[] } | undefined {
+  switch (node.kind) {
+    case 'lambda':
+    case 'defprompt':
+      return { names: node.params.map(p => p.name), scoped: [node.body] };
+    default:
+      return undefined;
+  }
+}
+
+// The binding values and body of a let, in evaluation order, each with the
+// let's own names bound where it is evaluated
+function letParts(node: AST.Let): Array<{ part: AST.ASTNode; names: string[] }> {
+  const parts = node.bindings.map((b, i) => ({ part: b.value, names: node.bindings.slice(0, i).map(b => b.name) }));
+  parts.push({ part: node.body, names: node.bindings.map(b => b.name) });
+  return parts;
+}
+
+function freeVariables(node: AST.ASTNode, bound: Set<string> = new Set(), free: Set<string> = new Set()): Set<string> {
+  if (node.kind === 'identifier') {
+    if (!bound.has(node.name)) {
+      free.add(node.name);
+    }
+    return free;
+  }
+
+  if (node.kind === 'case') {
+    freeVariables(node.scrutinee, bound, free);
+    for (const clause of node.clauses) {
+      const inner = new Set([...bound, ...patternVariables(clause.pattern)]);
+      if (clause.guard) {
+        freeVariables(clause.guard, inner, free);
+      }
+      freeVariables(clause.body, inner, free);
+    }
+    return free;
+  }
+
+  if (node.kind === 'let') {
+    for (const { part, names } of letParts(node)) {
+      freeVariables(part, new Set([...bound, ...names]), free);
+    }
+    return free;
+  }
+
+  const scope = binders(node);
+  const inner = scope ? new Set([...bound, ...scope.names]) : bound;
+  for (const child of children(node) as AST.ASTNode[]) {
+    freeVariables(child, scope?.scoped.includes(child) ? inner : bound, free);
+  }
+  return free;
+}
+
+// How often a name occurs free, and whether any occurrence is evaluated
+// conditionally or repeatedly (in a lambda, a case clause or after and/or)
+function occurrences(node: AST.ASTNode, name: string, deferred = false): { count: number; deferred: boolean } {
+  const result = { count: 0, deferred: false };
+  const visit = (n: AST.ASTNode, isDeferred: boolean): void => {
+    if (n.kind === 'identifier') {
+      if (n.name === name) {
+        result.count++;
+        result.deferred = result.deferred || isDeferred;
+      }
+      return;
+    }
+
+    if (n.kind === 'case') {
+      visit(n.scrutinee, isDeferred);
+      for (const clause of n.clauses) {
+        if (!patternVariables(clause.pattern).includes(name)) {
+          if (clause.guard) {
+            visit(clause.guard, true);
+          }
+          visit(clause.body, true);
+        }
+      }
+      return;
+    }
+
+    if (n.kind === 'let') {
+      letParts(n).filter(p => !p.names.includes(name)).forEach(p => visit(p.part, isDeferred));
+      return;
+    }
+
+    const scope = binders(n);
+    for (const child of children(n) as AST.ASTNode[]) {
+      const scoped = scope?.scoped.includes(child);
+      if (scoped && scope!.names.includes(name)) {
+        continue;
+      }
+      const conditional = n.kind === 'binary' && (n.operator === 'and' || n.operator === 'or') && child === n.right;
+      visit(child, isDeferred || conditional || scoped || n.kind === 'lambda');
+    }
+  };
+
+  visit(node, deferred);
+  return result;
+}
+
+// Whether evaluating `node` may call a function before it reaches its one
+// free occurrence of `name`. Children are evaluated in order.
+function callBefore(node: AST.ASTNode, name: string): boolean {
+  const scope = binders(node);
+  const parts = node.kind === 'let'
+    ? letParts(node)
+    : (children(node) as AST.ASTNode[]).map(child => ({ part: child, names: scope?.scoped.includes(child) ? scope.names : [] }));
+  for (const { part, names } of parts) {
+    if (!names.includes(name) && occurrences(part, name).count > 0) {
+      return callBefore(part, name);
+    }
+    if (!isPure(part)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// The node with free occurrences of `name` replaced by `value`. Throws
+// CAPTURED when a binder on the way would change what `value` refers to.
+function substitute(node: AST.ASTNode, name: string, value: AST.ASTNode, free: Set<string>): AST.ASTNode {
+  if (node.kind === 'identifier') {
+    return node.name === name ? clone(value) : node;
+  }
+
+  const rebinds = (names: string[], scoped: AST.ASTNode[]): boolean => {
+    if (names.includes(name)) {
+      return true;
+    }
+    if (names.some(n => free.has(n)) && scoped.some(s => occurrences(s, name).count > 0)) {
+      throw CAPTURED;
+    }
+    return false;
+  };
+
+  if (node.kind === 'case') {
+    return {
+      ...node,
+      scrutinee: substitute(node.scrutinee, name, value, free),
+      clauses: node.clauses.map(clause => {
+        const scoped = clause.guard ? [clause.guard, clause.body] : [clause.body];
+        if (rebinds(patternVariables(clause.pattern), scoped)) {
+          return clause;
+        }
+        return {
+          ...clause,
+          guard: clause.guard && substitute(clause.guard, name, value, free),
+          body: substitute(clause.body, name, value, free)
+        };
+      })
+    };
+  }
+
+  if (node.kind === 'let') {
+    const parts = letParts(node).map(({ part, names }) =>
+      rebinds(names, [part]) ? part : substitute(part, name, value, free)
+    );
+    const body = parts.pop()!;
+    return { ...node, bindings: node.bindings.map((b, i) => ({ ...b, value: parts[i] })), body };
+  }
+
+  const scope = binders(node);
+  const shadowed = scope ? rebinds(scope.names, scope.scoped) : false;
+  return mapChildren(node, child =>
+    shadowed && scope!.scoped.includes(child) ? child : substitute(child, name, value, free)
+  );
+}
@@ -0,0 +1,24 @@
+import { Location } from '../ast/types';
+import { TokenType } from './lexer';
+
+export enum ParseErrorCode {
+  UNEXPECTED_TOKEN = 'P001',
+  EXPECTED_TOKEN = 'P002',
+  UNEXPECTED_CHARACTER = 'P003',
+  UNKNOWN_TYPE = 'P004',
+  UNTERMINATED_STRING = 'P005'
+}
+
+export interface ParseDiagnostic {
+  code: ParseErrorCode;
+  message: string;
+  span: Location;
+  expected: TokenType[];
+}
+
+export class ParseError extends Error {
+  constructor(public diagnostic: ParseDiagnostic) {
+    super(`${diagnostic.message} at ${diagnostic.span.line}:${diagnostic.span.column}`);
+    this.name = 'ParseError';
+  }
+}
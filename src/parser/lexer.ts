@@ -1,4 +1,4 @@
-import { Location } from '../ast/types';
+import { Comment, Location, Position } from '../ast/types';
 
 export enum TokenType {
   // Literals
@@ -8,10 +8,19 @@ export enum TokenType {
 
   // Keywords
   DEFPROMPT = 'DEFPROMPT',
+  DEFSCHEMA = 'DEFSCHEMA',
+  TYPE = 'TYPE',
+  IMPORT = 'IMPORT',
   LET = 'LET',
   IN = 'IN',
   CASE = 'CASE',
   WHEN = 'WHEN',
+  IF = 'IF',
+  LOGICAL_AND = 'LOGICAL_AND',
+  LOGICAL_OR = 'LOGICAL_OR',
+  NOT = 'NOT',
+  DO = 'DO',
+  PURE = 'PURE',
   END = 'END',
 
   // Identifiers and operators
@@ -20,11 +29,18 @@ export enum TokenType {
   ARROW = '->',
   FAT_ARROW = '=>',
   EQUALS = '=',
+  EQUAL_EQUAL = '==',
+  BANG_EQUAL = '!=',
+  LESS = '<',
+  GREATER = '>',
+  LESS_EQUAL = '<=',
+  GREATER_EQUAL = '>=',
   PLUS = '+',
   MINUS = '-',
   ASTERISK = '*',
   SLASH = '/',
   AND = '&',
+  BAR = '|',
   QUESTION = '?',
 
   // Delimiters
@@ -40,12 +56,13 @@ export enum TokenType {
   DOT = '.',
   AT = '@',
 
-  // Template literals
-  TEMPLATE_START = '"""',
-  TEMPLATE_END = '"""',
+  // Template literals: TEMPLATE_START (STRING | TEMPLATE_INTERP_START ... TEMPLATE_INTERP_END)* TEMPLATE_END
+  TEMPLATE_START = 'TEMPLATE_START',
+  TEMPLATE_END = 'TEMPLATE_END',
   TEMPLATE_INTERP_START = '{{',
   TEMPLATE_INTERP_END = '}}',
 
+  ERROR = 'ERROR',
   EOF = 'EOF'
 }
 
@@ -53,31 +70,103 @@ export interface Token {
   type: TokenType;
   value: string;
   location: Location;
+  newlineBefore?: boolean; // first token on its line
+}
+
+// Inside a template the lexer scans raw text up to the closing quote or `{{`;
+// inside an interpolation it scans ordinary tokens, counting braces so that
+// only a `}}` outside any record literal ends the interpolation.
+type LexerMode =
+  | { kind: 'template'; quote: string }
+  | { kind: 'interpolation'; depth: number };
+
+// Everything needed to rewind the lexer for parser lookahead
+export interface LexerState {
+  position: number;
+  offset: number;
+  line: number;
+  column: number;
+  modes: LexerMode[];
 }
 
 export class Lexer {
   private input: string;
   private position: number = 0;
+  // UTF-8 bytes before `position`, which indexes UTF-16 code units
+  private offset: number = 0;
   private line: number = 1;
   private column: number = 1;
+  private sawNewline: boolean = false;
+  private tokenStart: Position = { line: 1, column: 1, offset: 0 };
+  private file?: string;
+  private comments: Comment[] = [];
+  private modes: LexerMode[] = [];
 
-  constructor(input: string) {
+  constructor(input: string, file?: string) {
     this.input = input;
+    this.file = file;
+  }
+
+  save(): LexerState {
+    return {
+      position: this.position,
+      offset: this.offset,
+      line: this.line,
+      column: this.column,
+      modes: this.modes.map(mode => ({ ...mode }))
+    };
+  }
+
+  restore(state: LexerState): void {
+    this.position = state.position;
+    this.offset = state.offset;
+    this.line = state.line;
+    this.column = state.column;
+    this.modes = state.modes.map(mode => ({ ...mode }));
   }
 
   nextToken(): Token {
+    const mode = this.modes[this.modes.length - 1];
+    if (mode && mode.kind === 'template') {
+      return this.scanTemplatePart(mode.quote);
+    }
+
+    this.sawNewline = this.position === 0;
     this.skipWhitespace();
+    this.tokenStart = this.currentPosition();
 
     if (this.position >= this.input.length) {
+      // An unterminated template is reported by the parser, which knows where it began
+      this.modes = [];
       return this.makeToken(TokenType.EOF, '');
     }
 
+    if (mode && mode.kind === 'interpolation') {
+      if (mode.depth === 0 && this.match('}}')) {
+        this.modes.pop();
+        return this.makeToken(TokenType.TEMPLATE_INTERP_END, '}}');
+      }
+      if (this.peek() === '{') {
+        mode.depth++;
+      } else if (this.peek() === '}' && mode.depth > 0) {
+        mode.depth--;
+      }
+    }
+
     // Multi-character operators
     if (this.match('|>')) return this.makeToken(TokenType.PIPE, '|>');
     if (this.match('->')) return this.makeToken(TokenType.ARROW, '->');
     if (this.match('=>')) return this.makeToken(TokenType.FAT_ARROW, '=>');
+    if (this.match('==')) return this.makeToken(TokenType.EQUAL_EQUAL, '==');
+    if (this.match('!=')) return this.makeToken(TokenType.BANG_EQUAL, '!=');
+    if (this.match('<=')) return this.makeToken(TokenType.LESS_EQUAL, '<=');
+    if (this.match('>=')) return this.makeToken(TokenType.GREATER_EQUAL, '>=');
     if (this.match('::')) return this.makeToken(TokenType.DOUBLE_COLON, '::');
-    if (this.match('"""')) return this.scanTemplate();
+    if (this.match('"""')) return this.startTemplate('"""');
+    if (this.peek() === '"' && this.stringHasInterpolation()) {
+      this.advance();
+      return this.startTemplate('"');
+    }
 
     // Single character tokens
     const char = this.advance();
@@ -97,6 +186,11 @@ export class Lexer {
       case '-': return this.makeToken(TokenType.MINUS, char);
       case '*': return this.makeToken(TokenType.ASTERISK, char);
       case '/': return this.makeToken(TokenType.SLASH, char);
+      case '<': return this.makeToken(TokenType.LESS, char);
+      case '>': return this.makeToken(TokenType.GREATER, char);
+      case '&': return this.makeToken(TokenType.AND, char);
+      case '|': return this.makeToken(TokenType.BAR, char);
+      case '?': return this.makeToken(TokenType.QUESTION, char);
       case '"': return this.scanString();
       default:
         if (this.isDigit(char)) {
@@ -105,21 +199,44 @@ export class Lexer {
         if (this.isAlpha(char)) {
           return this.scanIdentifier();
         }
-        throw new Error(`Unexpected character: ${char} at ${this.line}:${this.column}`);
+        // Reported by the parser so that it can recover and keep going
+        return this.makeToken(TokenType.ERROR, char);
     }
   }
 
-  private scanTemplate(): Token {
-    let value = '';
+  private startTemplate(quote: string): Token {
+    this.modes.push({ kind: 'template', quote });
+    return this.makeToken(TokenType.TEMPLATE_START, quote);
+  }
 
-    while (this.position < this.input.length && !this.match('"""')) {
-      if (this.match('{{')) {
-        // Handle interpolation
-        value += '{{';
-        while (!this.match('}}')) {
-          value += this.advance();
-        }
-        value += '}}';
+  // The next text run, `{{`, or closing quote of the template being scanned.
+  // `\{{` is a literal `{{`; triple-quoted text keeps every other backslash as
+  // written, while "..." templates take the usual string escapes.
+  private scanTemplatePart(quote: string): Token {
+    this.sawNewline = false;
+    this.tokenStart = this.currentPosition();
+
+    if (this.position >= this.input.length) {
+      this.modes = [];
+      return this.makeToken(TokenType.EOF, '');
+    }
+    if (this.match(quote)) {
+      this.modes.pop();
+      return this.makeToken(TokenType.TEMPLATE_END, quote);
+    }
+    if (this.match('{{')) {
+      this.modes.push({ kind: 'interpolation', depth: 0 });
+      return this.makeToken(TokenType.TEMPLATE_INTERP_START, '{{');
+    }
+
+    let value = '';
+    while (this.position < this.input.length && !this.lookingAt(quote) && !this.lookingAt('{{')) {
+      if (this.lookingAt('\\{{')) {
+        this.advance();
+        value += this.advance() + this.advance();
+      } else if (this.peek() === '\\' && quote === '"') {
+        this.advance();
+        value += this.escape(this.advance());
       } else {
         value += this.advance();
       }
@@ -128,7 +245,23 @@ export class Lexer {
     return this.makeToken(TokenType.STRING, value);
   }
 
+  // Whether the "..." string starting here contains an unescaped `{{`
+  private stringHasInterpolation(): boolean {
+    for (let i = this.position + 1; i < this.input.length; i++) {
+      const char = this.input[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        return false;
+      } else if (char === '{' && this.input[i + 1] === '{') {
+        return true;
+      }
+    }
+    return false;
+  }
+
   private scanString(): Token {
+    const start = this.position - 1;
     let value = '';
     while (this.peek() !== '"' && this.position < this.input.length) {
       if (this.peek() === '\\') {
@@ -138,6 +271,10 @@ export class Lexer {
         value += this.advance();
       }
     }
+    if (this.position >= this.input.length) {
+      // Handed to the parser whole, opening quote first, to report as unterminated
+      return this.makeToken(TokenType.ERROR, this.input.slice(start));
+    }
     this.advance(); // closing quote
     return this.makeToken(TokenType.STRING, value);
   }
@@ -170,10 +307,19 @@ export class Lexer {
   private keywordType(word: string): TokenType {
     switch (word) {
       case 'defprompt': return TokenType.DEFPROMPT;
+      case 'defschema': return TokenType.DEFSCHEMA;
+      case 'type': return TokenType.TYPE;
+      case 'import': return TokenType.IMPORT;
       case 'let': return TokenType.LET;
       case 'in': return TokenType.IN;
       case 'case': return TokenType.CASE;
       case 'when': return TokenType.WHEN;
+      case 'if': return TokenType.IF;
+      case 'and': return TokenType.LOGICAL_AND;
+      case 'or': return TokenType.LOGICAL_OR;
+      case 'not': return TokenType.NOT;
+      case 'do': return TokenType.DO;
+      case 'pure': return TokenType.PURE;
       case 'end': return TokenType.END;
       case 'true':
       case 'false': return TokenType.BOOLEAN;
@@ -187,23 +333,56 @@ export class Lexer {
       if (char === ' ' || char === '\t' || char === '\r') {
         this.advance();
       } else if (char === '\n') {
-        this.line++;
-        this.column = 0;
+        this.sawNewline = true;
         this.advance();
       } else if (char === '#') {
         // Comments
+        const start = this.currentPosition();
+        const from = this.position;
         while (this.peek() !== '\n' && this.position < this.input.length) {
           this.advance();
         }
+        this.recordComment(start, from);
       } else {
         break;
       }
     }
   }
 
+  getComments(): Comment[] {
+    return this.comments;
+  }
+
+  private recordComment(start: Position, from: number): void {
+    // Parser lookahead rewinds and re-scans input, so skip comments already seen
+    const last = this.comments[this.comments.length - 1];
+    if (last && last.location.offset >= start.offset) {
+      return;
+    }
+
+    const location: Location = { ...start, end: this.currentPosition() };
+    if (this.file !== undefined) {
+      location.file = this.file;
+    }
+    this.comments.push({
+      text: this.input.slice(from, this.position).trimEnd(),
+      location
+    });
+  }
+
+  // The next character, or '' once the input is used up
   private advance(): string {
+    if (this.position >= this.input.length) {
+      return '';
+    }
     const char = this.input[this.position++];
-    this.column++;
+    this.offset += utf8Length(char);
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
     return char;
   }
 
@@ -215,9 +394,14 @@ export class Lexer {
     return this.input[this.position + 1] || '';
   }
 
+  private lookingAt(str: string): boolean {
+    return this.input.startsWith(str, this.position);
+  }
+
   private match(str: string): boolean {
-    if (this.input.slice(this.position, this.position + str.length) === str) {
+    if (this.lookingAt(str)) {
       this.position += str.length;
+      this.offset += utf8Length(str);
       this.column += str.length;
       return true;
     }
@@ -229,7 +413,7 @@ export class Lexer {
   }
 
   private isAlpha(char: string): boolean {
-    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z');
+    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char === '_';
   }
 
   private isAlphaNum(char: string): boolean {
@@ -247,14 +431,34 @@ export class Lexer {
     }
   }
 
+  private currentPosition(): Position {
+    return { line: this.line, column: this.column, offset: this.offset };
+  }
+
   private makeToken(type: TokenType, value: string): Token {
+    const location: Location = {
+      ...this.tokenStart,
+      end: this.currentPosition()
+    };
+    if (this.file !== undefined) {
+      location.file = this.file;
+    }
+
     return {
       type,
       value,
-      location: {
-        line: this.line,
-        column: this.column - value.length
-      }
+      location,
+      newlineBefore: this.sawNewline
     };
   }
 }
+
+// Bytes `text` takes up in UTF-8; each half of a surrogate pair counts two
+function utf8Length(text: string): number {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    length += code < 0x80 ? 1 : code < 0x800 || (code >= 0xd800 && code < 0xe000) ? 2 : 3;
+  }
+  return length;
+}
@@ -1,66 +1,438 @@
-import { Lexer, Token, TokenType } from './lexer';
+import { Lexer, LexerState, Token, TokenType } from './lexer';
 import * as AST from '../ast/types';
+import { unionType, intersectionType } from '../types/types';
+import { ParseDiagnostic, ParseError, ParseErrorCode } from './diagnostics';
+import { Schema } from '../types/schema';
+
+export interface ParserOptions {
+  // Collect diagnostics and return a partial AST instead of throwing on the first error
+  recover?: boolean;
+  // Source file name recorded on every token and node location
+  file?: string;
+  // Type aliases brought into scope by an import, so later annotations can name them
+  importTypes?: (declaration: AST.Import) => Map<string, AST.Type>;
+}
+
+// Binding power of each binary operator; higher binds tighter. All are left-associative.
+// Application binds tighter than any of these, and `|>` looser.
+const BINARY_OPERATORS: Partial<Record<TokenType, { operator: AST.BinaryOperator; precedence: number }>> = {
+  [TokenType.LOGICAL_OR]: { operator: 'or', precedence: 1 },
+  [TokenType.LOGICAL_AND]: { operator: 'and', precedence: 2 },
+  [TokenType.EQUAL_EQUAL]: { operator: '==', precedence: 4 },
+  [TokenType.BANG_EQUAL]: { operator: '!=', precedence: 4 },
+  [TokenType.LESS]: { operator: '<', precedence: 4 },
+  [TokenType.GREATER]: { operator: '>', precedence: 4 },
+  [TokenType.LESS_EQUAL]: { operator: '<=', precedence: 4 },
+  [TokenType.GREATER_EQUAL]: { operator: '>=', precedence: 4 },
+  [TokenType.PLUS]: { operator: '+', precedence: 5 },
+  [TokenType.MINUS]: { operator: '-', precedence: 5 },
+  [TokenType.ASTERISK]: { operator: '*', precedence: 6 },
+  [TokenType.SLASH]: { operator: '/', precedence: 6 }
+};
+
+// `not a == b` negates the comparison, while `not a and b` negates only `a`
+const NOT_OPERAND_PRECEDENCE = 3;
+
+// Words the lexer reserves, which still name record fields: `r.type`, `{if: 1}`
+const KEYWORDS = new Set<TokenType>([
+  TokenType.DEFPROMPT, TokenType.DEFSCHEMA, TokenType.TYPE, TokenType.IMPORT, TokenType.LET,
+  TokenType.IN, TokenType.CASE, TokenType.WHEN, TokenType.IF, TokenType.LOGICAL_AND,
+  TokenType.LOGICAL_OR, TokenType.NOT, TokenType.DO, TokenType.PURE, TokenType.END, TokenType.BOOLEAN
+]);
+
+interface ParserState {
+  lexer: LexerState;
+  current: Token;
+  previous: Token;
+}
 
 export class Parser {
   private lexer: Lexer;
   private current: Token;
+  private previous: Token;
+  private typeAliases: Map<string, AST.Type> = new Map();
+  private options: ParserOptions;
+  private diagnostics: ParseDiagnostic[] = [];
 
-  constructor(input: string) {
-    this.lexer = new Lexer(input);
+  constructor(input: string, options: ParserOptions = {}) {
+    this.lexer = new Lexer(input, options.file);
     this.current = this.lexer.nextToken();
+    this.previous = this.current;
+    this.options = options;
   }
 
   parse(): AST.ASTNode {
-    return this.parseExpression();
+    const expr = this.parseExpression();
+
+    if (!this.check(TokenType.EOF)) {
+      this.recoverFrom(this.error(ParseErrorCode.UNEXPECTED_TOKEN, 'Unexpected token after expression', [TokenType.EOF]));
+      while (!this.check(TokenType.EOF)) {
+        this.advance();
+      }
+    }
+
+    return expr;
+  }
+
+  getDiagnostics(): ParseDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  getComments(): AST.Comment[] {
+    return this.lexer.getComments();
+  }
+
+  // Parse a whole source file into its top-level declarations
+  parseProgram(): AST.Program {
+    const location = this.current.location;
+    const declarations: AST.Declaration[] = [];
+
+    while (!this.check(TokenType.EOF)) {
+      const start = this.current;
+
+      try {
+        declarations.push(this.parseDeclaration());
+      } catch (error) {
+        declarations.push(this.recoverFrom(error));
+        this.synchronizeDeclaration(start);
+      }
+    }
+
+    return {
+      kind: 'program',
+      declarations,
+      location: { ...location, end: this.current.location.end }
+    };
+  }
+
+  private parseDeclaration(): AST.Declaration {
+    if (this.match(TokenType.DEFPROMPT)) {
+      return this.parseDefPrompt();
+    }
+
+    if (this.match(TokenType.DEFSCHEMA)) {
+      return this.parseDefSchema();
+    }
+
+    if (this.match(TokenType.TYPE)) {
+      return this.parseTypeAlias();
+    }
+
+    if (this.match(TokenType.LET)) {
+      return this.parseLetDeclaration();
+    }
+
+    if (this.match(TokenType.IMPORT)) {
+      return this.parseImport();
+    }
+
+    throw this.error(
+      ParseErrorCode.UNEXPECTED_TOKEN,
+      `Expected declaration, got ${this.current.type}`,
+      [TokenType.DEFPROMPT, TokenType.DEFSCHEMA, TokenType.TYPE, TokenType.LET, TokenType.IMPORT]
+    );
+  }
+
+  // type Name = Type
+  private parseTypeAlias(): AST.TypeAlias {
+    const start = this.previous.location;
+    const name = this.consume(TokenType.IDENTIFIER, "Expected type name after 'type'").value;
+    this.consume(TokenType.EQUALS, "Expected '=' after type name");
+    const type = this.parseType();
+    this.typeAliases.set(name, type);
+
+    return {
+      kind: 'type_alias',
+      name,
+      type,
+      location: this.spanFrom(start)
+    };
+  }
+
+  // defschema Name "description" do field: Type required = default "description" ... end
+  private parseDefSchema(): AST.DefSchema {
+    const start = this.previous.location;
+    const name = this.consume(TokenType.IDENTIFIER, "Expected schema name after 'defschema'").value;
+
+    let description: string | undefined;
+    if (this.check(TokenType.STRING)) {
+      description = this.advance().value;
+    }
+
+    this.consume(TokenType.DO, "Expected 'do' before schema fields");
+
+    const fields: AST.SchemaFieldDeclaration[] = [];
+    while (!this.check(TokenType.END) && !this.check(TokenType.EOF)) {
+      fields.push(this.parseSchemaField());
+    }
+
+    this.consume(TokenType.END, "Expected 'end' after schema fields");
+
+    const schema: AST.DefSchema = {
+      kind: 'defschema',
+      name,
+      description,
+      fields,
+      location: this.spanFrom(start)
+    };
+
+    // Registered like a type alias so later annotations can name the schema
+    this.typeAliases.set(name, Schema.fromDeclaration(schema).toType());
+
+    return schema;
+  }
+
+  // `required` is only a flag on the field's own line, so it remains usable as a field name
+  private parseSchemaField(): AST.SchemaFieldDeclaration {
+    const nameToken = this.consumeFieldName('Expected field name');
+    this.consume(TokenType.COLON, "Expected ':' after field name");
+    const type = this.parseType();
+
+    let required = false;
+    if (this.check(TokenType.IDENTIFIER) && this.current.value === 'required' && !this.current.newlineBefore) {
+      this.advance();
+      required = true;
+    }
+
+    let defaultValue: AST.ASTNode | undefined;
+    if (this.match(TokenType.EQUALS)) {
+      defaultValue = this.parseConstant();
+    }
+
+    let description: string | undefined;
+    if (this.check(TokenType.STRING)) {
+      description = this.advance().value;
+    }
+
+    return {
+      name: nameToken.value,
+      type,
+      required,
+      default: defaultValue,
+      description,
+      location: this.spanFrom(nameToken.location)
+    };
+  }
+
+  // A literal, negated number, or list/record literal whose elements are all constants
+  private parseConstant(): AST.ASTNode {
+    const start = this.current.location;
+    let value: AST.ASTNode;
+
+    if (this.match(TokenType.MINUS)) {
+      const operand = this.parsePrimary();
+      value = { kind: 'unary', operator: '-', operand, location: this.spanFrom(start) };
+    } else {
+      value = this.parsePrimary();
+    }
+
+    if (!this.isConstant(value)) {
+      throw this.error(ParseErrorCode.UNEXPECTED_TOKEN, 'Expected a constant default value', [], start);
+    }
+
+    return value;
+  }
+
+  private isConstant(node: AST.ASTNode): boolean {
+    switch (node.kind) {
+      case 'literal':
+        return true;
+      case 'unary':
+        return node.operator === '-' && node.operand.kind === 'literal' && typeof node.operand.value === 'number';
+      case 'list_literal':
+        return node.elements.every(element => this.isConstant(element));
+      case 'record_literal':
+        return node.fields.every(field => this.isConstant(field.value));
+      default:
+        return false;
+    }
+  }
+
+  // let name = value, ... (no 'in' body at the top level)
+  private parseLetDeclaration(): AST.LetDeclaration {
+    const start = this.previous.location;
+    const bindings = this.parseBindings();
+
+    if (this.check(TokenType.IN)) {
+      throw this.error(ParseErrorCode.UNEXPECTED_TOKEN, "Top-level let declarations do not take an 'in' body");
+    }
+
+    return {
+      kind: 'let_declaration',
+      bindings,
+      location: this.spanFrom(start)
+    };
+  }
+
+  // import "./path.pl" (Name, Other)
+  private parseImport(): AST.Import {
+    const start = this.previous.location;
+    const path = this.consume(TokenType.STRING, "Expected module path after 'import'").value;
+
+    let names: string[] | undefined;
+    if (this.match(TokenType.LPAREN)) {
+      names = [];
+      do {
+        names.push(this.consume(TokenType.IDENTIFIER, 'Expected imported name').value);
+      } while (this.match(TokenType.COMMA));
+      this.consume(TokenType.RPAREN, "Expected ')' after imported names");
+    }
+
+    const declaration: AST.Import = {
+      kind: 'import',
+      path,
+      names,
+      location: this.spanFrom(start)
+    };
+
+    if (this.options.importTypes) {
+      for (const [name, type] of this.options.importTypes(declaration)) {
+        this.typeAliases.set(name, type);
+      }
+    }
+
+    return declaration;
   }
 
   private parseExpression(): AST.ASTNode {
     return this.parsePipeline();
   }
 
+  // `|>` and `::` share the loosest precedence and associate left, so an
+  // ascription pins the type of everything before it:
+  // `text |> extract :: Resume |> summarize` is `((text |> extract) :: Resume) |> summarize`
   private parsePipeline(): AST.ASTNode {
-    let left = this.parseApplication();
+    let stages = [this.parseBinary(0)];
 
-    while (this.match(TokenType.PIPE)) {
-      const stages = [left];
-      stages.push(this.parseApplication());
+    for (;;) {
+      if (this.match(TokenType.PIPE)) {
+        stages.push(this.parseBinary(0));
+        continue;
+      }
 
-      while (this.match(TokenType.PIPE)) {
-        stages.push(this.parseApplication());
+      if (this.match(TokenType.DOUBLE_COLON)) {
+        const expression = this.pipelineOf(stages);
+        const type = this.parseType();
+        stages = [{
+          kind: 'type_annotation',
+          expression,
+          type,
+          location: this.spanFrom(expression.location)
+        }];
+        continue;
       }
 
+      return this.pipelineOf(stages);
+    }
+  }
+
+  private pipelineOf(stages: AST.ASTNode[]): AST.ASTNode {
+    if (stages.length === 1) {
+      return stages[0];
+    }
+
+    return {
+      kind: 'pipeline',
+      stages,
+      location: this.spanFrom(stages[0].location)
+    };
+  }
+
+  // Precedence climbing over BINARY_OPERATORS
+  private parseBinary(minPrecedence: number): AST.ASTNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const entry = BINARY_OPERATORS[this.current.type];
+      if (!entry || entry.precedence < minPrecedence) {
+        return left;
+      }
+
+      this.advance(); // consume operator
+      const right = this.parseBinary(entry.precedence + 1);
+
       left = {
-        kind: 'pipeline',
-        stages,
-        location: stages[0].location
+        kind: 'binary',
+        operator: entry.operator,
+        left,
+        right,
+        location: this.spanFrom(left.location)
       };
     }
+  }
 
-    return left;
+  private parseUnary(): AST.ASTNode {
+    if (this.check(TokenType.MINUS) || this.check(TokenType.NOT)) {
+      const start = this.current.location;
+      const operator: AST.UnaryOperator = this.advance().type === TokenType.MINUS ? '-' : 'not';
+      const operand = operator === '-'
+        ? this.parseUnary()
+        : this.parseBinary(NOT_OPERAND_PRECEDENCE + 1);
+
+      return {
+        kind: 'unary',
+        operator,
+        operand,
+        location: this.spanFrom(start)
+      };
+    }
+
+    return this.parseApplication();
   }
 
   private parseApplication(): AST.ASTNode {
-    let left = this.parsePrimary();
+    let left = this.parsePostfix();
 
     while (this.isStartOfPrimary()) {
-      const args = [this.parsePrimary()];
+      const args = [this.parsePostfix()];
 
       while (this.isStartOfPrimary() && !this.check(TokenType.PIPE)) {
-        args.push(this.parsePrimary());
+        args.push(this.parsePostfix());
       }
 
       left = {
         kind: 'application',
         func: left,
         args,
-        location: left.location
+        location: this.spanFrom(left.location)
       };
     }
 
     return left;
   }
 
+  // Field access binds tighter than application: `f a.b` is `f (a.b)`
+  private parsePostfix(): AST.ASTNode {
+    let expr = this.parsePrimary();
+
+    while (this.match(TokenType.DOT)) {
+      const field = this.consumeFieldName("Expected field name after '.'").value;
+      expr = {
+        kind: 'field_access',
+        object: expr,
+        field,
+        location: this.spanFrom(expr.location)
+      };
+    }
+
+    return expr;
+  }
+
   private parsePrimary(): AST.ASTNode {
+    if (!this.options.recover) {
+      return this.parsePrimaryExpression();
+    }
+
+    try {
+      return this.parsePrimaryExpression();
+    } catch (error) {
+      const node = this.recoverFrom(error);
+      this.synchronize();
+      return node;
+    }
+  }
+
+  private parsePrimaryExpression(): AST.ASTNode {
     // Literals
     if (this.check(TokenType.STRING)) {
       const token = this.advance();
@@ -90,7 +462,7 @@ export class Parser {
     }
 
     // Template literals
-    if (this.current.value.includes('{{')) {
+    if (this.check(TokenType.TEMPLATE_START)) {
       return this.parseTemplate();
     }
 
@@ -107,11 +479,41 @@ export class Parser {
       return expr;
     }
 
+    // pure (x) -> body
+    if (this.match(TokenType.PURE)) {
+      const start = this.previous.location;
+      if (!this.isLambdaExpression()) {
+        throw this.error(ParseErrorCode.EXPECTED_TOKEN, "Expected a lambda after 'pure'", [TokenType.LPAREN]);
+      }
+      this.advance(); // consume '('
+      const lambda = this.parseLambda();
+      return { ...lambda, pure: true, location: this.spanFrom(start) };
+    }
+
+    // List and record literals
+    if (this.match(TokenType.LBRACKET)) {
+      return this.parseListLiteral();
+    }
+
+    if (this.match(TokenType.LBRACE)) {
+      return this.parseRecordLiteral();
+    }
+
     // Let expression
     if (this.match(TokenType.LET)) {
       return this.parseLet();
     }
 
+    // Case expression
+    if (this.match(TokenType.CASE)) {
+      return this.parseCase();
+    }
+
+    // Prompt definition
+    if (this.match(TokenType.DEFPROMPT)) {
+      return this.parseDefPrompt();
+    }
+
     // Identifier
     if (this.check(TokenType.IDENTIFIER)) {
       const token = this.advance();
@@ -122,48 +524,173 @@ export class Parser {
       };
     }
 
-    throw new Error(`Unexpected token: ${this.current.type} at ${this.current.location.line}:${this.current.location.column}`);
+    throw this.error(ParseErrorCode.UNEXPECTED_TOKEN, `Unexpected token: ${this.current.type}`);
   }
 
+  // (param: Type = default, ...): ReturnType -> body
   private parseLambda(): AST.Lambda {
-    const location = this.current.location;
+    const start = this.previous.location;
+    const params = this.check(TokenType.RPAREN) ? [] : this.parseParameters();
+
+    this.consume(TokenType.RPAREN, "Expected ')' after parameters");
+
+    let returnType: AST.Type | undefined;
+    if (this.match(TokenType.COLON)) {
+      returnType = this.parseType();
+    }
+
+    this.consume(TokenType.ARROW, "Expected '->' after parameters");
+
+    const body = this.parseExpression();
+
+    return {
+      kind: 'lambda',
+      params,
+      body,
+      returnType,
+      location: this.spanFrom(start)
+    };
+  }
+
+  // [a, b, c]
+  private parseListLiteral(): AST.ListLiteral {
+    const start = this.previous.location;
+    const elements: AST.ASTNode[] = [];
+
+    if (!this.check(TokenType.RBRACKET)) {
+      do {
+        elements.push(this.parseExpression());
+      } while (this.match(TokenType.COMMA));
+    }
+
+    this.consume(TokenType.RBRACKET, "Expected ']' after list elements");
+
+    return {
+      kind: 'list_literal',
+      elements,
+      location: this.spanFrom(start)
+    };
+  }
+
+  // {name: "x", tags: [...]}; {name} is shorthand for {name: name}
+  private parseRecordLiteral(): AST.RecordLiteral {
+    const start = this.previous.location;
+    const fields: AST.RecordLiteralField[] = [];
+
+    if (!this.check(TokenType.RBRACE)) {
+      do {
+        const nameToken = this.consumeFieldName('Expected field name in record');
+
+        const value: AST.ASTNode = this.matchFieldColon(nameToken)
+          ? this.parseExpression()
+          : { kind: 'identifier', name: nameToken.value, location: nameToken.location };
+
+        if (fields.some(f => f.name === nameToken.value)) {
+          throw this.error(ParseErrorCode.UNEXPECTED_TOKEN, `Duplicate field in record: ${nameToken.value}`, [], nameToken.location);
+        }
+
+        fields.push({ name: nameToken.value, value });
+      } while (this.match(TokenType.COMMA));
+    }
+
+    this.consume(TokenType.RBRACE, "Expected '}' after record fields");
+
+    return {
+      kind: 'record_literal',
+      fields,
+      location: this.spanFrom(start)
+    };
+  }
+
+  private parseParameters(): AST.Parameter[] {
     const params: AST.Parameter[] = [];
 
-    // Parse parameters
     do {
-      const name = this.consume(TokenType.IDENTIFIER, "Expected parameter name").value;
+      const nameToken = this.consume(TokenType.IDENTIFIER, "Expected parameter name");
       let type: AST.Type | undefined;
+      let defaultValue: AST.ASTNode | undefined;
 
       if (this.match(TokenType.COLON)) {
         type = this.parseType();
       }
 
-      params.push({ name, type });
+      if (this.match(TokenType.EQUALS)) {
+        defaultValue = this.parseExpression();
+      } else if (params.some(p => p.defaultValue)) {
+        // Missing arguments are filled from the end, so defaults must trail
+        throw this.error(
+          ParseErrorCode.UNEXPECTED_TOKEN,
+          `Parameter ${nameToken.value} without a default follows one with a default`,
+          [TokenType.EQUALS],
+          nameToken.location
+        );
+      }
+
+      params.push({ name: nameToken.value, type, defaultValue });
     } while (this.match(TokenType.COMMA));
 
+    return params;
+  }
+
+  // defprompt name(params) :: OutputType do @attr value ... body end
+  private parseDefPrompt(): AST.DefPrompt {
+    const start = this.previous.location;
+    const name = this.consume(TokenType.IDENTIFIER, "Expected prompt name after 'defprompt'").value;
+
+    this.consume(TokenType.LPAREN, "Expected '(' after prompt name");
+    const params = this.check(TokenType.RPAREN) ? [] : this.parseParameters();
     this.consume(TokenType.RPAREN, "Expected ')' after parameters");
-    this.consume(TokenType.ARROW, "Expected '->' after parameters");
+
+    let returnType: AST.Type | undefined;
+    if (this.match(TokenType.DOUBLE_COLON)) {
+      returnType = this.parseType();
+    }
+
+    this.consume(TokenType.DO, "Expected 'do' before prompt body");
+
+    const attributes: AST.PromptAttribute[] = [];
+    while (this.check(TokenType.AT)) {
+      attributes.push(this.parsePromptAttribute());
+    }
 
     const body = this.parseExpression();
+    this.consume(TokenType.END, "Expected 'end' after prompt body");
 
     return {
-      kind: 'lambda',
+      kind: 'defprompt',
+      name,
       params,
+      returnType,
+      attributes,
       body,
-      location
+      location: this.spanFrom(start)
     };
   }
 
-  private parseLet(): AST.Let {
-    const location = this.current.location;
-    const bindings: AST.Binding[] = [];
+  private parsePromptAttribute(): AST.PromptAttribute {
+    const start = this.advance().location; // consume '@'
+    const name = this.consume(TokenType.IDENTIFIER, "Expected attribute name after '@'").value;
 
-    do {
-      const name = this.consume(TokenType.IDENTIFIER, "Expected binding name").value;
-      this.consume(TokenType.EQUALS, "Expected '=' after binding name");
-      const value = this.parseExpression();
-      bindings.push({ name, value });
-    } while (this.match(TokenType.COMMA));
+    if (this.check(TokenType.STRING)) {
+      return { name, value: this.advance().value, location: this.spanFrom(start) };
+    }
+    if (this.check(TokenType.NUMBER)) {
+      return { name, value: parseFloat(this.advance().value), location: this.spanFrom(start) };
+    }
+    if (this.check(TokenType.BOOLEAN)) {
+      return { name, value: this.advance().value === 'true', location: this.spanFrom(start) };
+    }
+
+    throw this.error(
+      ParseErrorCode.EXPECTED_TOKEN,
+      `Expected literal value for attribute @${name}`,
+      [TokenType.STRING, TokenType.NUMBER, TokenType.BOOLEAN]
+    );
+  }
+
+  private parseLet(): AST.Let {
+    const start = this.previous.location;
+    const bindings = this.parseBindings();
 
     this.consume(TokenType.IN, "Expected 'in' after bindings");
     const body = this.parseExpression();
@@ -172,210 +699,407 @@ export class Parser {
       kind: 'let',
       bindings,
       body,
-      location
+      location: this.spanFrom(start)
     };
   }
 
-  private parseTemplate(): AST.Template {
-    const location = this.current.location;
-    const parts: AST.TemplatePart[] = [];
-    const templateStr = this.advance().value;
+  // case expr when pattern [if guard] => body ... end
+  private parseCase(): AST.Case {
+    const start = this.previous.location;
+    const scrutinee = this.parseExpression();
+    const clauses: AST.CaseClause[] = [];
 
-    let current = '';
-    let i = 0;
+    while (this.check(TokenType.WHEN)) {
+      const clauseStart = this.advance().location; // consume 'when'
+      const pattern = this.parsePattern();
 
-    while (i < templateStr.length) {
-      if (templateStr[i] === '{' && templateStr[i + 1] === '{') {
-        if (current) {
-          parts.push({ kind: 'text', value: current });
-          current = '';
-        }
+      let guard: AST.ASTNode | undefined;
+      if (this.match(TokenType.IF)) {
+        guard = this.parseExpression();
+      }
 
-        i += 2;
-        let interpStr = '';
-        while (!(templateStr[i] === '}' && templateStr[i + 1] === '}')) {
-          interpStr += templateStr[i++];
-        }
-        i += 2;
+      this.consume(TokenType.FAT_ARROW, "Expected '=>' after pattern");
+      const body = this.parseExpression();
 
-        const parser = new Parser(interpStr);
-        parts.push({
-          kind: 'interpolation',
-          expression: parser.parse()
-        });
-      } else {
-        current += templateStr[i++];
+      clauses.push({ pattern, guard, body, location: this.spanFrom(clauseStart) });
+    }
+
+    if (clauses.length === 0) {
+      throw this.error(ParseErrorCode.EXPECTED_TOKEN, "Expected at least one 'when' clause", [TokenType.WHEN]);
+    }
+
+    this.consume(TokenType.END, "Expected 'end' after case clauses");
+
+    return {
+      kind: 'case',
+      scrutinee,
+      clauses,
+      location: this.spanFrom(start)
+    };
+  }
+
+  private parsePattern(): AST.Pattern {
+    const start = this.current.location;
+
+    if (this.check(TokenType.STRING)) {
+      return { kind: 'literal_pattern', value: this.advance().value, location: start };
+    }
+
+    if (this.check(TokenType.NUMBER)) {
+      return { kind: 'literal_pattern', value: parseFloat(this.advance().value), location: start };
+    }
+
+    if (this.check(TokenType.BOOLEAN)) {
+      return { kind: 'literal_pattern', value: this.advance().value === 'true', location: start };
+    }
+
+    if (this.check(TokenType.IDENTIFIER)) {
+      const name = this.advance().value;
+      if (name === '_') {
+        return { kind: 'wildcard_pattern', location: start };
+      }
+      return { kind: 'variable_pattern', name, location: start };
+    }
+
+    if (this.match(TokenType.LBRACE)) {
+      const fields: AST.RecordPatternField[] = [];
+
+      if (!this.check(TokenType.RBRACE)) {
+        do {
+          const nameToken = this.consumeFieldName("Expected field name in record pattern");
+
+          // {name} is shorthand for {name: name}
+          const pattern: AST.Pattern = this.matchFieldColon(nameToken)
+            ? this.parsePattern()
+            : { kind: 'variable_pattern', name: nameToken.value, location: nameToken.location };
+
+          fields.push({ name: nameToken.value, pattern });
+        } while (this.match(TokenType.COMMA));
+      }
+
+      this.consume(TokenType.RBRACE, "Expected '}' after record pattern");
+      return { kind: 'record_pattern', fields, location: this.spanFrom(start) };
+    }
+
+    if (this.match(TokenType.LBRACKET)) {
+      const elements: AST.Pattern[] = [];
+
+      if (!this.check(TokenType.RBRACKET)) {
+        do {
+          elements.push(this.parsePattern());
+        } while (this.match(TokenType.COMMA));
       }
+
+      this.consume(TokenType.RBRACKET, "Expected ']' after list pattern");
+      return { kind: 'list_pattern', elements, location: this.spanFrom(start) };
     }
 
-    if (current) {
-      parts.push({ kind: 'text', value: current });
+    throw this.error(ParseErrorCode.UNEXPECTED_TOKEN, `Unexpected token in pattern: ${this.current.type}`);
+  }
+
+  private parseBindings(): AST.Binding[] {
+    const bindings: AST.Binding[] = [];
+
+    do {
+      const name = this.consume(TokenType.IDENTIFIER, "Expected binding name").value;
+      this.consume(TokenType.EQUALS, "Expected '=' after binding name");
+      const value = this.parseExpression();
+      bindings.push({ name, value });
+    } while (this.match(TokenType.COMMA));
+
+    return bindings;
+  }
+
+  // TEMPLATE_START (text | {{ expression }})* TEMPLATE_END, as tokenized by the lexer
+  private parseTemplate(): AST.Template {
+    const startToken = this.advance(); // consume the opening quote
+    const parts: AST.TemplatePart[] = [];
+
+    while (!this.check(TokenType.TEMPLATE_END)) {
+      if (this.check(TokenType.EOF)) {
+        throw this.error(ParseErrorCode.EXPECTED_TOKEN, 'Unterminated template literal', [TokenType.TEMPLATE_END], startToken.location);
+      }
+
+      if (this.check(TokenType.STRING)) {
+        parts.push({ kind: 'text', value: this.advance().value });
+        continue;
+      }
+
+      this.consume(TokenType.TEMPLATE_INTERP_START, "Expected text or '{{' in template");
+      const expression = this.parseExpression();
+      this.consume(TokenType.TEMPLATE_INTERP_END, "Expected '}}' after interpolated expression");
+      parts.push({ kind: 'interpolation', expression });
     }
+    this.advance(); // consume the closing quote
 
+    const block = startToken.value === '"""';
     return {
       kind: 'template',
-      parts,
-      location
+      parts: block ? this.dedent(parts) : parts,
+      block,
+      location: this.spanFrom(startToken.location)
     };
   }
 
+  // A triple-quoted block that opens with a line break drops that line break,
+  // a final whitespace-only line, and the indentation common to all its lines.
+  // Other templates are kept exactly as written.
+  private dedent(parts: AST.TemplatePart[]): AST.TemplatePart[] {
+    const first = parts[0];
+    if (!first || first.kind !== 'text' || !/^\r?\n/.test(first.value)) {
+      return parts;
+    }
+
+    // Work on the text with a placeholder standing in for each interpolation
+    const HOLE = '\u0000';
+    const expressions: AST.ASTNode[] = [];
+    let text = parts.map(part => {
+      if (part.kind === 'text') {
+        return part.value;
+      }
+      expressions.push(part.expression);
+      return HOLE;
+    }).join('');
+
+    text = text.replace(/^\r?\n/, '').replace(/\r?\n[ \t]*$/, '');
+
+    const lines = text.split('\n');
+    const indents = lines
+      .filter(line => line.trim() !== '')
+      .map(line => line.match(/^[ \t]*/)![0].length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    text = lines.map(line => line.slice(Math.min(common, line.match(/^[ \t]*/)![0].length))).join('\n');
+
+    const result: AST.TemplatePart[] = [];
+    text.split(HOLE).forEach((value, i) => {
+      if (value) {
+        result.push({ kind: 'text', value });
+      }
+      if (i < expressions.length) {
+        result.push({ kind: 'interpolation', expression: expressions[i] });
+      }
+    });
+    return result;
+  }
+
+  // Type grammar, loosest first:  A | B  then  A & B  then primary types
   private parseType(): AST.Type {
-    // For now, implement a basic version that supports extended types
-    // We'll implement more sophisticated type parsing in a later phase
-    
-    if (this.check(TokenType.LPAREN) && this.peekAhead(TokenType.IDENTIFIER) && this.getTokenAfterAhead(TokenType.COLON)) {
-      // Function type: (param: Type) -> ReturnType
-      this.advance(); // consume '('
-      const params: AST.ParameterType[] = [];
-      
-      if (!this.check(TokenType.RPAREN)) {
-        do {
-          const paramName = this.consume(TokenType.IDENTIFIER, "Expected parameter name").value;
-          this.consume(TokenType.COLON, "Expected ':' after parameter name");
-          const paramType = this.parseType();
-          
-          // Check if it's optional with '?'
-          let optional = false;
-          if (this.match(TokenType.QUESTION)) {
-            optional = true;
-          }
-          
-          params.push({
-            name: paramName,
-            type: paramType,
-            optional
-          });
-        } while (this.match(TokenType.COMMA));
+    const types = [this.parseIntersectionType()];
+
+    while (this.match(TokenType.BAR)) {
+      types.push(this.parseIntersectionType());
+    }
+
+    return types.length === 1 ? types[0] : unionType(...types);
+  }
+
+  private parseIntersectionType(): AST.Type {
+    const types = [this.parsePrimaryType()];
+
+    while (this.match(TokenType.AND)) {
+      types.push(this.parsePrimaryType());
+    }
+
+    return types.length === 1 ? types[0] : intersectionType(...types);
+  }
+
+  private parsePrimaryType(): AST.Type {
+    // pure (x: A) -> B: a function without effects
+    if (this.match(TokenType.PURE)) {
+      if (!this.check(TokenType.LPAREN) || !this.isFunctionType()) {
+        throw this.error(ParseErrorCode.EXPECTED_TOKEN, "Expected a function type after 'pure'", [TokenType.LPAREN]);
       }
-      
-      this.consume(TokenType.RPAREN, "Expected ')' after parameters");
-      this.consume(TokenType.ARROW, "Expected '->' after parameters");
-      const returnType = this.parseType();
-      
-      return {
-        kind: 'function',
-        params,
-        returns: returnType
-      };
-    } else if (this.check(TokenType.IDENTIFIER)) {
-      const typeName = this.consume(TokenType.IDENTIFIER, "Expected type name").value;
-
-      switch (typeName) {
-        case 'string':
-        case 'number':
-        case 'boolean':
-        case 'null':
-          return { kind: 'primitive', name: typeName as 'string' | 'number' | 'boolean' | 'null' };
-        
-        case 'prompt':
-          if (this.match(TokenType.LBRACKET)) {
-            this.consume(TokenType.LPAREN, "Expected '(' after prompt[");
-            const inputType = this.parseType();
-            this.consume(TokenType.COMMA, "Expected ',' after input type");
-            const outputType = this.parseType();
-            this.consume(TokenType.RPAREN, "Expected ')' after types");
-            let model: string | undefined;
-            let temperature: number | undefined;
-            
-            // Optional model and temperature
+      return this.parseFunctionType([]);
+    }
+
+    if (this.check(TokenType.LPAREN)) {
+      if (this.isFunctionType()) {
+        return this.parseFunctionType();
+      }
+
+      // Parenthesised grouping: (A | B) & C
+      this.advance(); // consume '('
+      const type = this.parseType();
+      this.consume(TokenType.RPAREN, "Expected ')' after type");
+      return type;
+    }
+
+    const nameToken = this.consume(TokenType.IDENTIFIER, 'Expected type');
+    const typeName = nameToken.value;
+
+    switch (typeName) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+      case 'null':
+        return { kind: 'primitive', name: typeName as 'string' | 'number' | 'boolean' | 'null' };
+
+      case 'prompt':
+        if (this.match(TokenType.LBRACKET)) {
+          this.consume(TokenType.LPAREN, "Expected '(' after prompt[");
+          const inputType = this.parseType();
+          this.consume(TokenType.COMMA, "Expected ',' after input type");
+          const outputType = this.parseType();
+          this.consume(TokenType.RPAREN, "Expected ')' after types");
+          let model: string | undefined;
+          let temperature: number | undefined;
+
+          // Optional model and temperature
+          if (this.match(TokenType.COMMA)) {
+            if (this.check(TokenType.STRING)) {
+              model = this.advance().value;
+            }
             if (this.match(TokenType.COMMA)) {
-              if (this.check(TokenType.STRING)) {
-                model = this.advance().value;
-              }
-              if (this.match(TokenType.COMMA)) {
-                if (this.check(TokenType.NUMBER)) {
-                  temperature = parseFloat(this.advance().value);
-                }
+              if (this.check(TokenType.NUMBER)) {
+                temperature = parseFloat(this.advance().value);
               }
             }
-            this.consume(TokenType.RBRACKET, "Expected ']' after prompt parameters");
-            
-            return { 
-              kind: 'prompt', 
-              input: inputType,
-              output: outputType,
-              model,
-              temperature
-            };
-          }
-          return { kind: 'prompt', input: { kind: 'any' }, output: { kind: 'any' } };
-        
-        case 'list':
-          if (this.match(TokenType.LBRACKET)) {
-            const elementType = this.parseType();
-            this.consume(TokenType.RBRACKET, "Expected ']' after element type");
-            return { kind: 'list', element: elementType };
-          }
-          return { kind: 'list', element: { kind: 'any' } };
-        
-        case 'record':
-          if (this.match(TokenType.LBRACE)) {
-            const fields: AST.RecordField[] = [];
-            
-            if (!this.check(TokenType.RBRACE)) {
-              do {
-                const fieldName = this.consume(TokenType.IDENTIFIER, "Expected field name").value;
-                this.consume(TokenType.COLON, "Expected ':' after field name");
-                const fieldType = this.parseType();
-                
-                let optional = false;
-                if (this.match(TokenType.QUESTION)) {
-                  optional = true;
-                }
-                
-                fields.push({
-                  name: fieldName,
-                  type: fieldType,
-                  optional
-                });
-              } while (this.match(TokenType.COMMA));
-            }
-            
-            this.consume(TokenType.RBRACE, "Expected '}' after record fields");
-            return { kind: 'record', fields };
           }
-          return { kind: 'record', fields: [] };
-        
-        case 'dynamic':
-          if (this.match(TokenType.LBRACKET)) {
-            const constraint = this.parseType();
-            this.consume(TokenType.RBRACKET, "Expected ']' after constraint");
-            return { kind: 'dynamic', constraint };
+          this.consume(TokenType.RBRACKET, "Expected ']' after prompt parameters");
+
+          return {
+            kind: 'prompt',
+            input: inputType,
+            output: outputType,
+            model,
+            temperature
+          };
+        }
+        return { kind: 'prompt', input: { kind: 'any' }, output: { kind: 'any' } };
+
+      case 'list':
+        if (this.match(TokenType.LBRACKET)) {
+          const elementType = this.parseType();
+          this.consume(TokenType.RBRACKET, "Expected ']' after element type");
+          return { kind: 'list', element: elementType };
+        }
+        return { kind: 'list', element: { kind: 'any' } };
+
+      case 'record':
+        if (this.match(TokenType.LBRACE)) {
+          const fields: AST.RecordField[] = [];
+
+          if (!this.check(TokenType.RBRACE)) {
+            do {
+              const fieldName = this.consumeFieldName("Expected field name").value;
+              this.consume(TokenType.COLON, "Expected ':' after field name");
+              const fieldType = this.parseType();
+
+              let optional = false;
+              if (this.match(TokenType.QUESTION)) {
+                optional = true;
+              }
+
+              fields.push({
+                name: fieldName,
+                type: fieldType,
+                optional
+              });
+            } while (this.match(TokenType.COMMA));
           }
-          return { kind: 'dynamic' };
-        
-        case 'any':
-          return { kind: 'any' };
-        
-        case 'never':
-          return { kind: 'never' };
-        
-        default:
-          return { kind: 'any' };
+
+          this.consume(TokenType.RBRACE, "Expected '}' after record fields");
+          return { kind: 'record', fields };
+        }
+        return { kind: 'record', fields: [] };
+
+      case 'dynamic':
+        if (this.match(TokenType.LBRACKET)) {
+          const constraint = this.parseType();
+          this.consume(TokenType.RBRACKET, "Expected ']' after constraint");
+          return { kind: 'dynamic', constraint };
+        }
+        return { kind: 'dynamic' };
+
+      case 'any':
+        return { kind: 'any' };
+
+      case 'never':
+        return { kind: 'never' };
+
+      default: {
+        const alias = this.typeAliases.get(typeName);
+        if (alias) {
+          return { ...alias, alias: typeName };
+        }
+        // Not a syntax error, so recovery can carry on with an unconstrained type
+        const error = this.error(ParseErrorCode.UNKNOWN_TYPE, `Unknown type: ${typeName}`, [], nameToken.location);
+        if (!this.options.recover) {
+          throw error;
+        }
+        this.diagnostics.push(error.diagnostic);
+        return { kind: 'any' };
       }
-    } else {
-      // For union types using pipe operator (a | b), we'd need more complex parsing
-      // For now, just return any
-      return { kind: 'any' };
     }
   }
 
-  // Helper method to look ahead more than one token
-  private getTokenAfterAhead(tokenType: TokenType): boolean {
-    const saved = this.current;
-    this.advance();
-    const result = this.check(tokenType);
-    this.current = saved;
-    return result;
+  // Function type: (param: Type, other: Type?) -> ReturnType
+  private parseFunctionType(effects?: AST.Effect[]): AST.Type {
+    this.advance(); // consume '('
+    const params: AST.ParameterType[] = [];
+
+    if (!this.check(TokenType.RPAREN)) {
+      do {
+        const paramName = this.consume(TokenType.IDENTIFIER, "Expected parameter name").value;
+        this.consume(TokenType.COLON, "Expected ':' after parameter name");
+        const paramType = this.parseType();
+
+        // Check if it's optional with '?'
+        let optional = false;
+        if (this.match(TokenType.QUESTION)) {
+          optional = true;
+        }
+
+        params.push({
+          name: paramName,
+          type: paramType,
+          optional
+        });
+      } while (this.match(TokenType.COMMA));
+    }
+
+    this.consume(TokenType.RPAREN, "Expected ')' after parameters");
+    this.consume(TokenType.ARROW, "Expected '->' after parameters");
+    const returnType = this.parseType();
+
+    return {
+      kind: 'function',
+      params,
+      returns: returnType,
+      ...(effects && { effects })
+    };
   }
 
+  // A parenthesised type is a function type when it opens with `name:` or is `() ->`
+  private isFunctionType(): boolean {
+    const saved = this.saveState();
+
+    try {
+      this.advance(); // consume '('
+
+      if (this.match(TokenType.RPAREN)) {
+        return this.check(TokenType.ARROW);
+      }
+
+      return this.match(TokenType.IDENTIFIER) && this.check(TokenType.COLON);
+    } finally {
+      this.restoreState(saved);
+    }
+  }
+
+  // Tokens that may begin an application argument. Keyword-led expressions
+  // (let, case, defprompt) must be parenthesised as arguments so that they
+  // unambiguously start the next top-level declaration.
   private isStartOfPrimary(): boolean {
     return this.check(TokenType.STRING) ||
+           this.check(TokenType.TEMPLATE_START) ||
            this.check(TokenType.NUMBER) ||
            this.check(TokenType.BOOLEAN) ||
            this.check(TokenType.IDENTIFIER) ||
            this.check(TokenType.LPAREN) ||
-           this.check(TokenType.LET);
+           this.check(TokenType.PURE) ||
+           this.check(TokenType.LBRACKET) ||
+           this.check(TokenType.LBRACE);
   }
 
   private match(type: TokenType): boolean {
@@ -390,12 +1114,19 @@ export class Parser {
     return this.current.type === type;
   }
 
-  private peekAhead(type: TokenType): boolean {
-    const saved = this.current;
-    this.advance();
-    const result = this.check(type);
-    this.current = saved;
-    return result;
+  // Lookahead support: capture and rewind both the lexer and the current token
+  private saveState(): ParserState {
+    return {
+      lexer: this.lexer.save(),
+      current: this.current,
+      previous: this.previous
+    };
+  }
+
+  private restoreState(state: ParserState): void {
+    this.lexer.restore(state.lexer);
+    this.current = state.current;
+    this.previous = state.previous;
   }
 
   private isLambdaExpression(): boolean {
@@ -408,13 +1139,10 @@ export class Parser {
     }
 
     // Look ahead in the input to detect lambda pattern
-    // Pattern: (id:type) -> or (id, id) -> or (id) -> or () ->
+    // Pattern: (id:type) -> or (id, id) -> or (id = x) -> or (id) -> or () ->,
+    // where a `: ReturnType` may come between ')' and '->'
 
-    // We use a simple saved position approach
-    const savedPosition = this.lexer['position'];
-    const savedLine = this.lexer['line'];
-    const savedColumn = this.lexer['column'];
-    const savedCurrent = this.current;
+    const saved = this.saveState();
 
     try {
       this.advance(); // consume (
@@ -422,8 +1150,7 @@ export class Parser {
       // Empty params: () ->
       if (this.check(TokenType.RPAREN)) {
         this.advance();
-        const result = this.check(TokenType.ARROW);
-        return result;
+        return this.check(TokenType.ARROW) || this.check(TokenType.COLON);
       }
 
       // Must have identifier
@@ -434,37 +1161,139 @@ export class Parser {
       this.advance(); // consume identifier
 
       // Check if followed by :, , or ) ->
-      if (this.check(TokenType.COLON) || this.check(TokenType.COMMA)) {
+      if (this.check(TokenType.COLON) || this.check(TokenType.COMMA) || this.check(TokenType.EQUALS)) {
         return true;
       }
 
       if (this.check(TokenType.RPAREN)) {
         this.advance();
-        return this.check(TokenType.ARROW);
+        return this.check(TokenType.ARROW) || this.check(TokenType.COLON);
       }
 
       return false;
     } finally {
-      // Restore lexer state
-      this.lexer['position'] = savedPosition;
-      this.lexer['line'] = savedLine;
-      this.lexer['column'] = savedColumn;
-      this.current = savedCurrent;
+      this.restoreState(saved);
     }
   }
 
   private advance(): Token {
     const token = this.current;
+    this.previous = token;
     if (this.current.type !== TokenType.EOF) {
       this.current = this.lexer.nextToken();
     }
     return token;
   }
 
+  // Span from `start` to the end of the most recently consumed token
+  private spanFrom(start: AST.Location): AST.Location {
+    return { ...start, end: this.previous.location.end };
+  }
+
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) {
       return this.advance();
     }
-    throw new Error(`${message} at ${this.current.location.line}:${this.current.location.column}`);
+    throw this.error(ParseErrorCode.EXPECTED_TOKEN, message, [type]);
+  }
+
+  private consumeFieldName(message: string): Token {
+    if (this.check(TokenType.IDENTIFIER) || KEYWORDS.has(this.current.type)) {
+      return this.advance();
+    }
+    throw this.error(ParseErrorCode.EXPECTED_TOKEN, message, [TokenType.IDENTIFIER]);
+  }
+
+  // The `:` after a field name in a record or record pattern, which only a
+  // plain name may leave out, since `{type}` would refer to a keyword
+  private matchFieldColon(nameToken: Token): boolean {
+    if (nameToken.type === TokenType.IDENTIFIER) {
+      return this.match(TokenType.COLON);
+    }
+    this.consume(TokenType.COLON, `Expected ':' after field name ${nameToken.value}`);
+    return true;
+  }
+
+  private error(
+    code: ParseErrorCode,
+    message: string,
+    expected: TokenType[] = [],
+    span: AST.Location = this.current.location
+  ): ParseError {
+    // Wherever it turns up, a character the lexer could not read is the real problem
+    if (this.current.type === TokenType.ERROR && span === this.current.location) {
+      if (this.current.value.startsWith('"')) {
+        return new ParseError({
+          code: ParseErrorCode.UNTERMINATED_STRING,
+          message: 'Unterminated string literal',
+          span,
+          expected
+        });
+      }
+      return new ParseError({
+        code: ParseErrorCode.UNEXPECTED_CHARACTER,
+        message: `Unexpected character: ${this.current.value}`,
+        span,
+        expected
+      });
+    }
+    return new ParseError({ code, message, span, expected });
+  }
+
+  // Record a syntax error and stand an error node in for the broken construct.
+  // Without recovery the error propagates to the caller unchanged.
+  private recoverFrom(error: unknown): AST.ErrorNode {
+    if (!this.options.recover || !(error instanceof ParseError)) {
+      throw error;
+    }
+
+    const { diagnostic } = error;
+    const previous = this.diagnostics[this.diagnostics.length - 1];
+
+    // A failure cascading out of an earlier error at the same spot adds no information
+    if (!previous || previous.span.line !== diagnostic.span.line || previous.span.column !== diagnostic.span.column) {
+      this.diagnostics.push(diagnostic);
+    }
+
+    return {
+      kind: 'error',
+      message: diagnostic.message,
+      location: diagnostic.span
+    };
+  }
+
+  // Skip to a token that can close or separate the broken expression
+  private synchronize(): void {
+    while (!this.check(TokenType.EOF)) {
+      if (this.check(TokenType.COMMA) ||
+          this.check(TokenType.RPAREN) ||
+          this.check(TokenType.RBRACKET) ||
+          this.check(TokenType.RBRACE) ||
+          this.check(TokenType.TEMPLATE_INTERP_END) ||
+          this.check(TokenType.IN) ||
+          this.check(TokenType.END) ||
+          this.current.newlineBefore) {
+        return;
+      }
+      this.advance();
+    }
+  }
+
+  // Skip to the next top-level declaration, always making progress past `start`
+  private synchronizeDeclaration(start: Token): void {
+    if (this.current === start) {
+      this.advance();
+    }
+
+    while (!this.check(TokenType.EOF)) {
+      if (this.check(TokenType.DEFPROMPT) ||
+          this.check(TokenType.DEFSCHEMA) ||
+          this.check(TokenType.TYPE) ||
+          this.check(TokenType.IMPORT) ||
+          (this.check(TokenType.LET) && this.current.newlineBefore)) {
+        return;
+      }
+      this.advance();
+    }
   }
 }
@@ -0,0 +1,168 @@
+import * as readline from 'readline';
+import { ASTNode, Location } from '../ast/types';
+import { Environment, EvaluationHooks, Value } from './evaluator';
+import { snapshot } from './tracer';
+
+// Pauses evaluation at a source line, or only at the node starting at `column`
+export interface Breakpoint {
+  line: number;
+  column?: number;
+  file?: string;
+}
+
+export interface PausedAt {
+  reason: 'breakpoint' | 'step';
+  node: ASTNode;
+  location: Location;
+  env: Environment;
+  // Names in scope here, without the builtins; inner bindings shadow outer ones
+  variables(): Map<string, Value>;
+}
+
+export type DebugCommand = 'continue' | 'step';
+
+// Decides how to go on from a pause; evaluation waits until it answers
+export type PauseHandler = (paused: PausedAt) => DebugCommand | Promise<DebugCommand>;
+
+// Evaluation hook that pauses at breakpoints. `continue` runs to the next
+// breakpoint and `step` pauses again before the next node is evaluated.
+// A breakpoint pauses once each time evaluation arrives at its line (or
+// position), not again for every node that starts there.
+export class Debugger implements EvaluationHooks {
+  private breakpoints: Breakpoint[] = [];
+  private stepping = false;
+  private last?: Location;
+
+  constructor(private onPause: PauseHandler) {}
+
+  setBreakpoint(breakpoint: Breakpoint): void {
+    this.breakpoints.push(breakpoint);
+  }
+
+  clearBreakpoint(line: number, file?: string): void {
+    this.breakpoints = this.breakpoints.filter(b => b.line !== line || b.file !== file);
+  }
+
+  clearBreakpoints(): void {
+    this.breakpoints = [];
+  }
+
+  // Pause before the next node, whether or not it has a breakpoint
+  pause(): void {
+    this.stepping = true;
+  }
+
+  async beforeEvaluate(node: ASTNode, env: Environment): Promise<void> {
+    const location = node.location;
+    if (!location) {
+      return;
+    }
+
+    const last = this.last;
+    this.last = location;
+
+    let reason: PausedAt['reason'] | undefined;
+    if (this.stepping) {
+      reason = 'step';
+    } else if (this.breakpoints.some(b => this.matches(b, location, last))) {
+      reason = 'breakpoint';
+    }
+    if (!reason) {
+      return;
+    }
+
+    const command = await this.onPause({ reason, node, location, env, variables: () => variables(env) });
+    this.stepping = command === 'step';
+  }
+
+  private matches(breakpoint: Breakpoint, location: Location, last?: Location): boolean {
+    if (breakpoint.line !== location.line || (breakpoint.file !== undefined && breakpoint.file !== location.file)) {
+      return false;
+    }
+    const arrived = !last || last.file !== location.file || last.line !== location.line;
+    if (breakpoint.column === undefined) {
+      return arrived;
+    }
+    return breakpoint.column === location.column && (arrived || last!.column !== location.column);
+  }
+}
+
+function variables(env: Environment): Map<string, Value> {
+  const found = new Map<string, Value>();
+  // The outermost environment holds the builtins and globals
+  for (let current: Environment | undefined = env; current?.parent; current = current.parent) {
+    for (const [name, value] of current.bindings) {
+      if (!found.has(name)) {
+        found.set(name, value);
+      }
+    }
+  }
+  return found;
+}
+
+// A PauseHandler that asks what to do on a terminal. Commands: `c` to
+// continue, `s` to step, `v` to list variables, `p name` to print one.
+export function terminalPauseHandler(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): PauseHandler {
+  // One reader for the whole session, so lines typed ahead are not lost between pauses
+  let lines: AsyncIterator<string> | undefined;
+  let rl: readline.Interface | undefined;
+
+  return async paused => {
+    if (!rl || !lines) {
+      rl = readline.createInterface({ input, terminal: false });
+      lines = rl[Symbol.asyncIterator]();
+    }
+    rl.resume();
+
+    const { location } = paused;
+    output.write(`Paused at ${location.file ? location.file + ':' : ''}${location.line}:${location.column} ` +
+      `(${paused.reason}) before ${paused.node.kind}\n`);
+
+    try {
+      for (;;) {
+        output.write('debug> ');
+        const line = await lines.next();
+        // Running out of input lets the program finish
+        if (line.done) {
+          return 'continue';
+        }
+
+        const [command, name] = line.value.trim().split(/\s+/);
+        switch (command) {
+          case 'c':
+          case 'continue':
+            return 'continue';
+
+          case 's':
+          case 'step':
+            return 'step';
+
+          case 'v':
+          case 'vars':
+            for (const [variable, value] of paused.variables()) {
+              output.write(`  ${variable} = ${JSON.stringify(snapshot(value))}\n`);
+            }
+            break;
+
+          case 'p':
+          case 'print': {
+            const vars = paused.variables();
+            output.write(vars.has(name)
+              ? `${JSON.stringify(snapshot(vars.get(name)!), null, 2)}\n`
+              : `No variable ${name} here\n`);
+            break;
+          }
+
+          default:
+            output.write('Commands: c(ontinue), s(tep), v(ars), p(rint) <name>\n');
+        }
+      }
+    } finally {
+      // Let the process exit while the program runs on
+      rl.pause();
+    }
+  };
+}
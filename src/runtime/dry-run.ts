@@ -0,0 +1,191 @@
+import { Program, Type } from '../ast/types';
+import { Schema } from '../types/schema';
+import { ChatCompletionRequest } from './openai-client';
+import { ExecuteOptions, createChatRequest } from './executor';
+import { Environment, Evaluator, EvaluatorOptions, PromptRequest, Value } from './evaluator';
+import { TokenCounter } from './tokenizer';
+
+export interface DryRunOptions {
+  // Schemas for structured return types, by name; other record types get a schema derived from the type
+  schemas?: Map<string, Schema>;
+  // The max tokens of the executor the dry run stands in for, as in its ExecutionContext
+  maxTokens?: number;
+  // Completion tokens assumed for calls without any max tokens (default 500)
+  completionTokens?: number;
+  // Stands in for the model's answer; by default a placeholder shaped like the return type
+  respond?: (call: DryRunCall) => Value;
+}
+
+export interface DryRunEstimate {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+}
+
+export interface DryRunCall {
+  index: number;
+  name: string;
+  request: ChatCompletionRequest;
+  estimate: DryRunEstimate;
+  response?: Value;
+}
+
+export interface DryRunReport {
+  calls: DryRunCall[];
+  totals: DryRunEstimate;
+}
+
+// Replaces the model in a dry run: each prompt is turned into the exact
+// request `PromptExecutor` would send, recorded with its estimated tokens and
+// cost, and answered with a placeholder. Pass `runPrompt` wherever a
+// PromptRunner is expected, e.g. to the evaluator or the prompt compiler.
+export class DryRunRecorder {
+  private calls: DryRunCall[] = [];
+
+  constructor(private options: DryRunOptions = {}) {}
+
+  runPrompt = async (request: PromptRequest): Promise<Value> => {
+    const chatRequest = createChatRequest(request.prompt, this.executeOptions(request), { maxTokens: this.options.maxTokens });
+    const call: DryRunCall = {
+      index: this.calls.length + 1,
+      name: request.name,
+      request: chatRequest,
+      estimate: this.estimate(chatRequest)
+    };
+    this.calls.push(call);
+
+    call.response = this.options.respond
+      ? this.options.respond(call)
+      : placeholder(request.returnType || { kind: 'primitive', name: 'string' }, request.name);
+    return call.response;
+  };
+
+  report(): DryRunReport {
+    const totals = this.calls.reduce((sum, call) => ({
+      promptTokens: sum.promptTokens + call.estimate.promptTokens,
+      completionTokens: sum.completionTokens + call.estimate.completionTokens,
+      totalTokens: sum.totalTokens + call.estimate.totalTokens,
+      cost: {
+        prompt: sum.cost.prompt + call.estimate.cost.prompt,
+        completion: sum.cost.completion + call.estimate.cost.completion,
+        total: sum.cost.total + call.estimate.cost.total
+      }
+    }), emptyEstimate());
+
+    return { calls: [...this.calls], totals };
+  }
+
+  // Every recorded call as it would be sent, for reading before spending money
+  transcript(): string {
+    const sections = this.calls.map(call => {
+      const { request, estimate } = call;
+      const settings = [request.model];
+      if (request.temperature !== undefined) {
+        settings.push(`temperature ${request.temperature}`);
+      }
+      if (request.max_tokens !== undefined) {
+        settings.push(`max_tokens ${request.max_tokens}`);
+      }
+
+      const lines = [`=== Call ${call.index}: ${call.name} (${settings.join(', ')}) ===`];
+      for (const message of request.messages) {
+        lines.push(`[${message.role}]`, message.content);
+      }
+      if (request.response_format?.json_schema) {
+        lines.push('[response_format]', JSON.stringify(request.response_format.json_schema.schema, null, 2));
+      }
+      lines.push(`Estimate: ${describeEstimate(estimate)}`);
+      return lines.join('\n');
+    });
+
+    const report = this.report();
+    sections.push(`=== ${report.calls.length} call(s): ${describeEstimate(report.totals)} ===`);
+    return sections.join('\n\n') + '\n';
+  }
+
+  reset(): void {
+    this.calls = [];
+  }
+
+  // The executor options a defprompt's attributes and return type stand for
+  private executeOptions(request: PromptRequest): ExecuteOptions {
+    const { model, temperature, max_tokens, system } = request.attributes;
+    const returnType = request.returnType;
+
+    let outputSchema: Schema | undefined;
+    if (returnType?.alias && this.options.schemas?.has(returnType.alias)) {
+      outputSchema = this.options.schemas.get(returnType.alias);
+    } else if (returnType?.kind === 'record') {
+      outputSchema = Schema.fromRecordType(returnType.alias || request.name, returnType);
+    }
+
+    return {
+      model: typeof model === 'string' ? model : undefined,
+      temperature: typeof temperature === 'number' ? temperature : undefined,
+      maxTokens: typeof max_tokens === 'number' ? max_tokens : undefined,
+      systemPrompt: typeof system === 'string' ? system : undefined,
+      outputSchema
+    };
+  }
+
+  private estimate(request: ChatCompletionRequest): DryRunEstimate {
+    const promptTokens = request.messages.reduce(
+      (total, message) => total + TokenCounter.countTokens(message.content, request.model), 0
+    );
+    const completionTokens = request.max_tokens ?? this.options.completionTokens ?? 500;
+    const cost = TokenCounter.estimateCost(promptTokens, completionTokens, request.model);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: { prompt: cost.promptCost, completion: cost.completionCost, total: cost.totalCost }
+    };
+  }
+}
+
+// Evaluate a program with every model call recorded instead of sent
+export async function dryRun(
+  program: Program,
+  options: DryRunOptions & Omit<EvaluatorOptions, 'runPrompt'> = {}
+): Promise<{ env: Environment; report: DryRunReport; transcript: string }> {
+  const recorder = new DryRunRecorder(options);
+  const env = await new Evaluator({ ...options, runPrompt: recorder.runPrompt }).evaluateProgram(program);
+  return { env, report: recorder.report(), transcript: recorder.transcript() };
+}
+
+function emptyEstimate(): DryRunEstimate {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: { prompt: 0, completion: 0, total: 0 } };
+}
+
+function describeEstimate(estimate: DryRunEstimate): string {
+  return `${estimate.promptTokens} prompt + ${estimate.completionTokens} completion tokens, ` +
+    `$${estimate.cost.total.toFixed(4)}`;
+}
+
+// A stand-in response with the shape of the declared return type
+function placeholder(type: Type, name: string): Value {
+  switch (type.kind) {
+    case 'primitive':
+      switch (type.name) {
+        case 'string': return `<${name}>`;
+        case 'number': return 0;
+        case 'boolean': return false;
+        case 'null': return null;
+      }
+      break;
+    case 'list':
+      return [];
+    case 'record':
+      return Object.fromEntries(type.fields.map(f => [f.name, placeholder(f.type, f.name)]));
+    case 'union':
+    case 'intersection':
+      return placeholder(type.types[0], name);
+  }
+  return null;
+}
@@ -0,0 +1,612 @@
+import * as AST from '../ast/types';
+import { ModuleLoader } from '../modules/loader';
+import { BuiltinRegistry, standardLibrary } from '../stdlib/builtins';
+
+export type Value =
+  | string
+  | number
+  | boolean
+  | null
+  | Value[]
+  | { [field: string]: Value }
+  | FunctionValue;
+
+export type FunctionValue = Closure | NativeFunction | PartialApplication;
+
+// A lambda or defprompt together with the environment it was defined in
+export class Closure {
+  constructor(
+    public params: AST.Parameter[],
+    public body: AST.ASTNode,
+    public env: Environment,
+    public prompt?: AST.DefPrompt
+  ) {}
+}
+
+// A function implemented in TypeScript; it may return a promise
+export class NativeFunction {
+  constructor(
+    public name: string,
+    public arity: number,
+    public fn: (...args: Value[]) => Value | Promise<Value>
+  ) {}
+}
+
+// A function applied to fewer arguments than it requires
+export class PartialApplication {
+  constructor(public func: Closure | NativeFunction, public args: Value[]) {}
+}
+
+export interface Environment {
+  bindings: Map<string, Value>;
+  parent?: Environment;
+}
+
+// What a defprompt hands to the model once its body has been rendered
+export interface PromptRequest {
+  name: string;
+  prompt: string;
+  attributes: Record<string, string | number | boolean>;
+  returnType?: AST.Type;
+}
+
+export type PromptRunner = (request: PromptRequest) => Promise<Value>;
+
+// A unit of work reported to EvaluationHooks
+export type EvaluationStep =
+  | { kind: 'pipeline'; node: AST.Pipeline }
+  | { kind: 'stage'; node: AST.ASTNode; index: number; input: Value }
+  | { kind: 'application'; callee: string; args: Value[]; location?: AST.Location }
+  | { kind: 'template'; node: AST.Template }
+  | { kind: 'prompt'; request: PromptRequest; node: AST.DefPrompt };
+
+export type StepOutcome = { value: Value } | { error: unknown };
+
+// Observers of evaluation, such as a tracer or a debugger
+export interface EvaluationHooks {
+  // Awaited before each node is evaluated, so a debugger can pause there
+  beforeEvaluate?(node: AST.ASTNode, env: Environment): void | Promise<void>;
+  stepStarted?(step: EvaluationStep): void;
+  stepFinished?(step: EvaluationStep, outcome: StepOutcome): void;
+}
+
+export interface EvaluatorOptions {
+  // Builtin functions; the standard library unless given
+  builtins?: BuiltinRegistry;
+  // Further values visible to every program
+  globals?: Map<string, Value>;
+  // Sends rendered prompts to a model; defprompts cannot be called without one
+  runPrompt?: PromptRunner;
+  // Notified of each step, in order
+  hooks?: EvaluationHooks[];
+  // Finds the modules that programs import; programs with imports need one
+  modules?: ModuleLoader;
+}
+
+export class EvaluationError extends Error {
+  constructor(message: string, public location?: AST.Location) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+// Tree-walking interpreter. Evaluation is async throughout because calling a
+// defprompt waits on the model.
+//
+// Functions are curried: applying one to fewer arguments than it requires
+// gives a partial application, and extra arguments are applied to the result.
+// Parameters with defaults are filled in as soon as the required ones are given.
+export class Evaluator {
+  private globalEnv: Environment;
+  private runPrompt?: PromptRunner;
+  private hooks: EvaluationHooks[];
+  private modules?: ModuleLoader;
+  // Each imported module is evaluated once, by module id
+  private moduleEnvs: Map<string, Promise<Environment>> = new Map();
+
+  constructor(options: EvaluatorOptions = {}) {
+    const builtins = (options.builtins || standardLibrary).all().map(b => [
+      b.name,
+      new NativeFunction(b.name, b.type.params.length, (...args) => b.impl(args, (func, callArgs) => this.apply(func, callArgs)))
+    ] as [string, Value]);
+
+    this.globalEnv = { bindings: new Map([...builtins, ...(options.globals || [])]) };
+    this.runPrompt = options.runPrompt;
+    this.hooks = options.hooks || [];
+    this.modules = options.modules;
+  }
+
+  async evaluate(node: AST.ASTNode, env?: Environment): Promise<Value> {
+    const currentEnv = env || this.globalEnv;
+
+    for (const hook of this.hooks) {
+      await hook.beforeEvaluate?.(node, currentEnv);
+    }
+
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return this.lookup(node.name, currentEnv, node.location);
+
+      case 'lambda':
+        return new Closure(node.params, node.body, currentEnv);
+
+      case 'application': {
+        const func = await this.evaluate(node.func, currentEnv);
+        const args = await this.evaluateAll(node.args, currentEnv);
+        return this.applyAt(func, args, node.location, calleeName(node.func));
+      }
+
+      case 'let':
+        return this.evaluateLet(node, currentEnv);
+
+      case 'template':
+        return this.step({ kind: 'template', node }, () => this.evaluateTemplate(node, currentEnv));
+
+      case 'pipeline':
+        return this.step({ kind: 'pipeline', node }, () => this.evaluatePipeline(node, currentEnv));
+
+      case 'type_annotation':
+        return this.evaluate(node.expression, currentEnv);
+
+      case 'defprompt':
+        return new Closure(node.params, node.body, currentEnv, node);
+
+      case 'case':
+        return this.evaluateCase(node, currentEnv);
+
+      case 'list_literal':
+        return this.evaluateAll(node.elements, currentEnv);
+
+      case 'record_literal': {
+        const record: { [field: string]: Value } = {};
+        for (const field of node.fields) {
+          record[field.name] = await this.evaluate(field.value, currentEnv);
+        }
+        return record;
+      }
+
+      case 'field_access':
+        return this.evaluateFieldAccess(node, currentEnv);
+
+      case 'binary':
+        return this.evaluateBinary(node, currentEnv);
+
+      case 'unary': {
+        const operand = await this.evaluate(node.operand, currentEnv);
+        return node.operator === '-'
+          ? -this.expect(operand, 'number', node.location)
+          : !this.expect(operand, 'boolean', node.location);
+      }
+
+      case 'error':
+        throw new EvaluationError(`Cannot evaluate invalid syntax: ${node.message}`, node.location);
+    }
+  }
+
+  // Run each top-level declaration in order, returning the program's bindings
+  async evaluateProgram(program: AST.Program, env?: Environment): Promise<Environment> {
+    const programEnv: Environment = {
+      bindings: new Map(),
+      parent: env || this.globalEnv
+    };
+
+    for (const decl of program.declarations) {
+      switch (decl.kind) {
+        case 'defprompt':
+          programEnv.bindings.set(decl.name, new Closure(decl.params, decl.body, programEnv, decl));
+          break;
+
+        case 'let_declaration':
+          for (const binding of decl.bindings) {
+            programEnv.bindings.set(binding.name, await this.evaluate(binding.value, programEnv));
+          }
+          break;
+
+        case 'error':
+          throw new EvaluationError(`Cannot evaluate invalid syntax: ${decl.message}`, decl.location);
+
+        case 'import':
+          await this.importValues(decl, programEnv);
+          break;
+
+        case 'defschema':
+        case 'type_alias':
+          // Types only; nothing to evaluate
+          break;
+      }
+    }
+
+    return programEnv;
+  }
+
+  // Bind the values an import names (all of the module's when it names none)
+  private async importValues(decl: AST.Import, env: Environment): Promise<void> {
+    if (!this.modules) {
+      throw new EvaluationError(`Cannot import ${decl.path} without a module loader`, decl.location);
+    }
+
+    const module = this.modules.load(decl.path, decl.location.file);
+    let pending = this.moduleEnvs.get(module.id);
+    if (!pending) {
+      pending = this.evaluateProgram(module.program);
+      this.moduleEnvs.set(module.id, pending);
+    }
+    const moduleEnv = await pending;
+
+    for (const name of decl.names || moduleEnv.bindings.keys()) {
+      if (moduleEnv.bindings.has(name)) {
+        env.bindings.set(name, moduleEnv.bindings.get(name)!);
+      } else if (!module.exports.types.has(name)) {
+        throw new EvaluationError(`Module ${module.id} has no export named ${name}`, decl.location);
+      }
+    }
+  }
+
+  // Call a function value with arguments, e.g. a closure returned by a program
+  async apply(func: Value, args: Value[]): Promise<Value> {
+    return this.applyAt(func, args);
+  }
+
+  // `callee` names the function in hook reports when the call site does
+  private async applyAt(func: Value, args: Value[], location?: AST.Location, callee?: string): Promise<Value> {
+    if (this.hooks.length === 0) {
+      return this.applyNow(func, args, location);
+    }
+    const name = callee || functionName(func);
+    return this.step({ kind: 'application', callee: name, args, location }, () => this.applyNow(func, args, location, name));
+  }
+
+  private async applyNow(func: Value, args: Value[], location?: AST.Location, callee?: string): Promise<Value> {
+    let target: Closure | NativeFunction;
+    let allArgs: Value[];
+
+    if (func instanceof PartialApplication) {
+      target = func.func;
+      allArgs = [...func.args, ...args];
+    } else if (func instanceof Closure || func instanceof NativeFunction) {
+      target = func;
+      allArgs = args;
+    } else {
+      throw new EvaluationError(`Cannot apply non-function value: ${this.describe(func)}`, location);
+    }
+
+    const arity = target instanceof Closure ? target.params.length : target.arity;
+    const required = target instanceof Closure
+      ? target.params.filter(p => !p.defaultValue).length
+      : target.arity;
+
+    if (allArgs.length < required) {
+      return new PartialApplication(target, allArgs);
+    }
+
+    const result = target instanceof Closure
+      ? await this.call(target, allArgs.slice(0, arity))
+      : await this.callNative(target, allArgs.slice(0, arity), location);
+
+    const extra = allArgs.slice(arity);
+    return extra.length > 0 ? this.applyAt(result, extra, location, callee && `${callee}(...)`) : result;
+  }
+
+  // Run one step, reporting its start and outcome to the hooks
+  private async step(step: EvaluationStep, run: () => Promise<Value>): Promise<Value> {
+    if (this.hooks.length === 0) {
+      return run();
+    }
+
+    this.hooks.forEach(hook => hook.stepStarted?.(step));
+    try {
+      const value = await run();
+      this.hooks.forEach(hook => hook.stepFinished?.(step, { value }));
+      return value;
+    } catch (error) {
+      this.hooks.forEach(hook => hook.stepFinished?.(step, { error }));
+      throw error;
+    }
+  }
+
+  private async call(closure: Closure, args: Value[]): Promise<Value> {
+    const callEnv: Environment = {
+      bindings: new Map(),
+      parent: closure.env
+    };
+
+    for (let i = 0; i < closure.params.length; i++) {
+      const param = closure.params[i];
+      // Defaults are evaluated where the function was defined, as the checker types them
+      const value = i < args.length ? args[i] : await this.evaluate(param.defaultValue!, closure.env);
+      callEnv.bindings.set(param.name, value);
+    }
+
+    const body = await this.evaluate(closure.body, callEnv);
+    if (!closure.prompt) {
+      return body;
+    }
+
+    const prompt = closure.prompt;
+    if (!this.runPrompt) {
+      throw new EvaluationError(`Cannot run prompt ${prompt.name}: no prompt runner configured`, prompt.location);
+    }
+
+    const request: PromptRequest = {
+      name: prompt.name,
+      prompt: this.expect(body, 'string', prompt.body.location),
+      attributes: Object.fromEntries(prompt.attributes.map(a => [a.name, a.value])),
+      returnType: prompt.returnType
+    };
+    const runPrompt = this.runPrompt;
+    return this.step({ kind: 'prompt', request, node: prompt }, () => runPrompt(request));
+  }
+
+  private async callNative(func: NativeFunction, args: Value[], location?: AST.Location): Promise<Value> {
+    try {
+      return await func.fn(...args);
+    } catch (error) {
+      if (error instanceof EvaluationError) {
+        throw error;
+      }
+      throw new EvaluationError(`${func.name}: ${(error as Error).message}`, location);
+    }
+  }
+
+  private async evaluateAll(nodes: AST.ASTNode[], env: Environment): Promise<Value[]> {
+    const values: Value[] = [];
+    for (const node of nodes) {
+      values.push(await this.evaluate(node, env));
+    }
+    return values;
+  }
+
+  private async evaluateLet(node: AST.Let, env: Environment): Promise<Value> {
+    const letEnv: Environment = {
+      bindings: new Map(),
+      parent: env
+    };
+
+    // Like the checker, each binding sees the ones before it
+    for (const binding of node.bindings) {
+      letEnv.bindings.set(binding.name, await this.evaluate(binding.value, letEnv));
+    }
+
+    return this.evaluate(node.body, letEnv);
+  }
+
+  private async evaluateTemplate(node: AST.Template, env: Environment): Promise<Value> {
+    let text = '';
+    for (const part of node.parts) {
+      text += part.kind === 'text'
+        ? part.value
+        : this.toText(await this.evaluate(part.expression, env));
+    }
+    return text;
+  }
+
+  // `x |> f` calls `f x`, and `x |> f a` calls `f x a`
+  private async evaluatePipeline(node: AST.Pipeline, env: Environment): Promise<Value> {
+    let value = await this.evaluate(node.stages[0], env);
+
+    for (let i = 1; i < node.stages.length; i++) {
+      const stage = node.stages[i];
+      const input = value;
+      value = await this.step({ kind: 'stage', node: stage, index: i, input }, async () => {
+        if (stage.kind === 'application') {
+          const func = await this.evaluate(stage.func, env);
+          const args = await this.evaluateAll(stage.args, env);
+          return this.applyAt(func, [input, ...args], stage.location, calleeName(stage.func));
+        }
+        return this.applyAt(await this.evaluate(stage, env), [input], stage.location, calleeName(stage));
+      });
+    }
+
+    return value;
+  }
+
+  private async evaluateCase(node: AST.Case, env: Environment): Promise<Value> {
+    const scrutinee = await this.evaluate(node.scrutinee, env);
+
+    for (const clause of node.clauses) {
+      const clauseEnv: Environment = {
+        bindings: new Map(),
+        parent: env
+      };
+
+      if (!this.matchPattern(clause.pattern, scrutinee, clauseEnv)) {
+        continue;
+      }
+      if (clause.guard && !this.expect(await this.evaluate(clause.guard, clauseEnv), 'boolean', clause.guard.location)) {
+        continue;
+      }
+
+      return this.evaluate(clause.body, clauseEnv);
+    }
+
+    throw new EvaluationError(`No case clause matched ${this.describe(scrutinee)}`, node.location);
+  }
+
+  private matchPattern(pattern: AST.Pattern, value: Value, env: Environment): boolean {
+    switch (pattern.kind) {
+      case 'wildcard_pattern':
+        return true;
+
+      case 'variable_pattern':
+        env.bindings.set(pattern.name, value);
+        return true;
+
+      case 'literal_pattern':
+        return value === pattern.value;
+
+      case 'record_pattern':
+        if (!this.isRecord(value)) {
+          return false;
+        }
+        return pattern.fields.every(field =>
+          this.hasField(value, field.name) && this.matchPattern(field.pattern, value[field.name], env)
+        );
+
+      case 'list_pattern':
+        return Array.isArray(value) &&
+          value.length === pattern.elements.length &&
+          pattern.elements.every((element, i) => this.matchPattern(element, value[i], env));
+    }
+  }
+
+  private async evaluateFieldAccess(node: AST.FieldAccess, env: Environment): Promise<Value> {
+    const object = await this.evaluate(node.object, env);
+
+    // A record without the field is an unset optional field, never a method call
+    if (this.isRecord(object)) {
+      return this.hasField(object, node.field) ? object[node.field] : null;
+    }
+
+    // Method-style call: value.fn passes value as the first argument of fn
+    const method = this.tryLookup(node.field, env);
+    if (method !== undefined) {
+      return this.applyAt(method, [object], node.location, node.field);
+    }
+
+    throw new EvaluationError(`No field ${node.field} on ${this.describe(object)}`, node.location);
+  }
+
+  private async evaluateBinary(node: AST.BinaryOperation, env: Environment): Promise<Value> {
+    const left = await this.evaluate(node.left, env);
+
+    // Short-circuit before evaluating the right operand
+    if (node.operator === 'and' || node.operator === 'or') {
+      const leftValue = this.expect(left, 'boolean', node.left.location);
+      if (node.operator === 'and' ? !leftValue : leftValue) {
+        return leftValue;
+      }
+      return this.expect(await this.evaluate(node.right, env), 'boolean', node.right.location);
+    }
+
+    const right = await this.evaluate(node.right, env);
+
+    switch (node.operator) {
+      case '==':
+        return this.valuesEqual(left, right);
+      case '!=':
+        return !this.valuesEqual(left, right);
+      case '+':
+        if (typeof left === 'string' && typeof right === 'string') {
+          return left + right;
+        }
+        return this.expect(left, 'number', node.left.location) + this.expect(right, 'number', node.right.location);
+      case '-':
+        return this.expect(left, 'number', node.left.location) - this.expect(right, 'number', node.right.location);
+      case '*':
+        return this.expect(left, 'number', node.left.location) * this.expect(right, 'number', node.right.location);
+      case '/':
+        return this.expect(left, 'number', node.left.location) / this.expect(right, 'number', node.right.location);
+      case '<':
+      case '>':
+      case '<=':
+      case '>=':
+        return this.compare(node.operator, left, right, node.location);
+    }
+  }
+
+  private compare(operator: string, left: Value, right: Value, location: AST.Location): boolean {
+    const bothNumbers = typeof left === 'number' && typeof right === 'number';
+    const bothStrings = typeof left === 'string' && typeof right === 'string';
+    if (!bothNumbers && !bothStrings) {
+      throw new EvaluationError(`Cannot compare ${this.describe(left)} with ${this.describe(right)}`, location);
+    }
+
+    const a = left as number | string;
+    const b = right as number | string;
+    switch (operator) {
+      case '<': return a < b;
+      case '>': return a > b;
+      case '<=': return a <= b;
+      default: return a >= b;
+    }
+  }
+
+  private valuesEqual(a: Value, b: Value): boolean {
+    if (a === b) {
+      return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => this.valuesEqual(item, b[i]));
+    }
+    if (this.isRecord(a) && this.isRecord(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length &&
+        keys.every(key => this.hasField(b, key) && this.valuesEqual(a[key], b[key]));
+    }
+    return false;
+  }
+
+  private lookup(name: string, env: Environment, location: AST.Location): Value {
+    const value = this.tryLookup(name, env);
+    if (value === undefined) {
+      throw new EvaluationError(`Undefined identifier: ${name}`, location);
+    }
+    return value;
+  }
+
+  private tryLookup(name: string, env: Environment): Value | undefined {
+    if (env.bindings.has(name)) return env.bindings.get(name);
+    if (env.parent) return this.tryLookup(name, env.parent);
+    return undefined;
+  }
+
+  private expect(value: Value, type: 'string', location: AST.Location): string;
+  private expect(value: Value, type: 'number', location: AST.Location): number;
+  private expect(value: Value, type: 'boolean', location: AST.Location): boolean;
+  private expect(value: Value, type: string, location: AST.Location): Value {
+    if (typeof value !== type) {
+      throw new EvaluationError(`Expected ${type}, got ${this.describe(value)}`, location);
+    }
+    return value;
+  }
+
+  private isRecord(value: Value): value is { [field: string]: Value } {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+      !(value instanceof Closure || value instanceof NativeFunction || value instanceof PartialApplication);
+  }
+
+  // An own field only, so `r.constructor` is not found on every record's prototype
+  private hasField(record: { [field: string]: Value }, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, name);
+  }
+
+  // How an interpolated value appears in rendered text
+  private toText(value: Value): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value instanceof Closure || value instanceof NativeFunction || value instanceof PartialApplication) {
+      return '<function>';
+    }
+    return JSON.stringify(value);
+  }
+
+  private describe(value: Value): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'list';
+    if (this.isRecord(value)) return 'record';
+    if (typeof value === 'object') return 'function';
+    return typeof value;
+  }
+}
+
+// How a call site names its function, when it does so directly
+function calleeName(node: AST.ASTNode): string | undefined {
+  return node.kind === 'identifier' ? node.name : undefined;
+}
+
+function functionName(func: Value): string {
+  if (func instanceof PartialApplication) {
+    return functionName(func.func);
+  }
+  if (func instanceof NativeFunction) {
+    return func.name;
+  }
+  if (func instanceof Closure) {
+    return func.prompt ? func.prompt.name : '<lambda>';
+  }
+  return '<not a function>';
+}
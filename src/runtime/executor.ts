@@ -1,4 +1,4 @@
-import { OpenAIClient, ChatCompletionRequest, ChatCompletionResponse } from './openai-client';
+import { OpenAIClient, ChatCompletionRequest, ChatCompletionResponse, ChatMessage } from './openai-client';
 import { TokenCounter } from './tokenizer';
 import { Schema } from '../types/schema';
 
@@ -29,6 +29,48 @@ export interface ExecutionResult<T> {
   };
 }
 
+export interface ExecuteOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  outputSchema?: Schema;
+  systemPrompt?: string;
+}
+
+// The request `PromptExecutor.execute` sends for a prompt; also used by dry runs.
+// Options override the context's defaults.
+export function createChatRequest(
+  prompt: string,
+  options: ExecuteOptions = {},
+  context: Pick<ExecutionContext, 'maxTokens'> = {}
+): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+  if (options.systemPrompt) {
+    messages.push({ role: 'system', content: options.systemPrompt });
+  }
+  messages.push({ role: 'user', content: prompt });
+
+  const request: ChatCompletionRequest = {
+    model: options.model || 'gpt-4',
+    messages,
+    temperature: options.temperature,
+    max_tokens: options.maxTokens || context.maxTokens
+  };
+
+  if (options.outputSchema) {
+    request.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: 'response',
+        strict: true,
+        schema: options.outputSchema.toOpenAISchema()
+      }
+    };
+  }
+
+  return request;
+}
+
 export class PromptExecutor {
   private context: ExecutionContext;
   private usageTracker: UsageTracker;
@@ -40,42 +82,11 @@ export class PromptExecutor {
 
   async execute<T>(
     prompt: string,
-    options: {
-      model?: string;
-      temperature?: number;
-      maxTokens?: number;
-      outputSchema?: Schema;
-      systemPrompt?: string;
-    } = {}
+    options: ExecuteOptions = {}
   ): Promise<ExecutionResult<T>> {
     const startTime = Date.now();
 
-    // Build messages
-    const messages: any[] = [];
-    if (options.systemPrompt) {
-      messages.push({ role: 'system', content: options.systemPrompt });
-    }
-    messages.push({ role: 'user', content: prompt });
-
-    // Build request
-    const request: ChatCompletionRequest = {
-      model: options.model || 'gpt-4',
-      messages,
-      temperature: options.temperature,
-      max_tokens: options.maxTokens || this.context.maxTokens
-    };
-
-    // Add schema if provided
-    if (options.outputSchema) {
-      request.response_format = {
-        type: 'json_schema',
-        json_schema: {
-          name: 'response',
-          strict: true,
-          schema: options.outputSchema.toOpenAISchema()
-        }
-      };
-    }
+    const request = createChatRequest(prompt, options, this.context);
 
     // Log debug info
     if (this.context.debug) {
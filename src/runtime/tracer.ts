@@ -0,0 +1,162 @@
+import { Location } from '../ast/types';
+import {
+  Closure, EvaluationHooks, EvaluationStep, NativeFunction, PartialApplication, StepOutcome, Value
+} from './evaluator';
+
+// Values as recorded in a trace: plain JSON, with functions shown by name
+export type TraceValue =
+  | string
+  | number
+  | boolean
+  | null
+  | TraceValue[]
+  | { [field: string]: TraceValue };
+
+export interface TraceEntry {
+  kind: EvaluationStep['kind'];
+  label: string;
+  location?: Location;
+  input?: TraceValue;       // the value flowing into a pipeline stage
+  args?: TraceValue[];      // the arguments of an application
+  prompt?: string;          // the rendered text of a model call
+  output?: TraceValue;
+  error?: string;
+  startedAt: number;        // ms since the trace began
+  durationMs?: number;
+  children: TraceEntry[];
+}
+
+// Records what evaluation did as a tree: pipelines with each stage's input
+// and output, applications with their arguments, template renders and model
+// calls, each with its timing. Pass it as one of the evaluator's hooks.
+export class Tracer implements EvaluationHooks {
+  private roots: TraceEntry[] = [];
+  private open: TraceEntry[] = [];
+  private startTime = Date.now();
+
+  stepStarted(step: EvaluationStep): void {
+    const entry: TraceEntry = {
+      ...describeStep(step),
+      startedAt: Date.now() - this.startTime,
+      children: []
+    };
+
+    const parent = this.open[this.open.length - 1];
+    (parent ? parent.children : this.roots).push(entry);
+    this.open.push(entry);
+  }
+
+  stepFinished(_step: EvaluationStep, outcome: StepOutcome): void {
+    const entry = this.open.pop();
+    if (!entry) {
+      return;
+    }
+
+    entry.durationMs = Date.now() - this.startTime - entry.startedAt;
+    if ('value' in outcome) {
+      entry.output = snapshot(outcome.value);
+    } else {
+      entry.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    }
+  }
+
+  entries(): TraceEntry[] {
+    return this.roots;
+  }
+
+  toJSON(): TraceEntry[] {
+    return this.roots;
+  }
+
+  // One line per step, indented under the step it happened in
+  toText(options: { maxValueLength?: number } = {}): string {
+    const maxLength = options.maxValueLength ?? 60;
+    const lines: string[] = [];
+
+    const visit = (entry: TraceEntry, depth: number) => {
+      let line = '  '.repeat(depth) + entry.label;
+      if (entry.location) {
+        line += ` @${entry.location.line}:${entry.location.column}`;
+      }
+      if (entry.args) {
+        line += ` (${entry.args.map(arg => preview(arg, maxLength)).join(', ')})`;
+      }
+      if (entry.input !== undefined) {
+        line += ` ${preview(entry.input, maxLength)}`;
+      }
+      line += entry.error !== undefined
+        ? ` !! ${entry.error}`
+        : ` => ${entry.output === undefined ? '...' : preview(entry.output, maxLength)}`;
+      if (entry.durationMs !== undefined) {
+        line += ` [${entry.durationMs}ms]`;
+      }
+      lines.push(line);
+
+      for (const child of entry.children) {
+        visit(child, depth + 1);
+      }
+    };
+
+    for (const root of this.roots) {
+      visit(root, 0);
+    }
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.roots = [];
+    this.open = [];
+    this.startTime = Date.now();
+  }
+}
+
+function describeStep(step: EvaluationStep): Omit<TraceEntry, 'startedAt' | 'children'> {
+  switch (step.kind) {
+    case 'pipeline':
+      return { kind: step.kind, label: `pipeline (${step.node.stages.length - 1} stages)`, location: step.node.location };
+
+    case 'stage':
+      return { kind: step.kind, label: `stage ${step.index}`, location: step.node.location, input: snapshot(step.input) };
+
+    case 'application':
+      return { kind: step.kind, label: `call ${step.callee}`, location: step.location, args: step.args.map(snapshot) };
+
+    case 'template':
+      return { kind: step.kind, label: 'template', location: step.node.location };
+
+    case 'prompt': {
+      const model = step.request.attributes.model;
+      return {
+        kind: step.kind,
+        label: `prompt ${step.request.name}${typeof model === 'string' ? ` (${model})` : ''}`,
+        location: step.node.location,
+        prompt: step.request.prompt
+      };
+    }
+  }
+}
+
+// A JSON copy of a value as it was at this point of evaluation
+export function snapshot(value: Value): TraceValue {
+  if (value instanceof Closure) {
+    return value.prompt ? `<prompt ${value.prompt.name}>` : '<lambda>';
+  }
+  if (value instanceof NativeFunction) {
+    return `<builtin ${value.name}>`;
+  }
+  if (value instanceof PartialApplication) {
+    return `<partial ${snapshot(value.func)}>`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(snapshot);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([field, v]) => [field, snapshot(v)]));
+  }
+  return value;
+}
+
+function preview(value: TraceValue, maxLength: number): string {
+  const text = JSON.stringify(value);
+  return text.length > maxLength ? text.slice(0, maxLength - 3) + '...' : text;
+}
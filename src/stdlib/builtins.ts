@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import { Effect, FunctionType, Type } from '../types/types';
+
+// Applies a function value handed to a builtin by the program, e.g. map's callback
+export type CallFunction = (func: any, args: any[]) => Promise<any>;
+
+export interface Builtin {
+  name: string;
+  type: FunctionType;
+  description: string;
+  impl: (args: any[], call: CallFunction) => any;
+}
+
+// One declaration per builtin, shared by the type checker, the evaluator and
+// the template engine so that the three cannot drift apart
+export class BuiltinRegistry {
+  private builtins: Map<string, Builtin> = new Map();
+
+  register(builtin: Builtin): this {
+    this.builtins.set(builtin.name, builtin);
+    return this;
+  }
+
+  get(name: string): Builtin | undefined {
+    return this.builtins.get(name);
+  }
+
+  all(): Builtin[] {
+    return Array.from(this.builtins.values());
+  }
+
+  // Bindings for the type checker's global environment
+  types(): Map<string, Type> {
+    return new Map(this.all().map(b => [b.name, b.type]));
+  }
+
+  // Plain functions for the template engine. Higher-order builtins need the
+  // evaluator to call back into the program, and rendering a template must not
+  // read files or depend on the clock or chance, so both kinds are left out.
+  functions(): Map<string, Function> {
+    const plain = this.all().filter(b =>
+      !b.type.params.some(p => p.type.kind === 'function') && !b.type.effects?.length
+    );
+    return new Map(plain.map(b => [b.name, (...args: any[]) => b.impl(args, noCallbacks)]));
+  }
+}
+
+const noCallbacks: CallFunction = () => {
+  throw new Error('Builtin cannot call back into the program here');
+};
+
+const STRING: Type = { kind: 'primitive', name: 'string' };
+const NUMBER: Type = { kind: 'primitive', name: 'number' };
+const BOOLEAN: Type = { kind: 'primitive', name: 'boolean' };
+// Element types are not tracked, so generic positions are gradually typed
+const DYNAMIC: Type = { kind: 'dynamic' };
+const LIST: Type = { kind: 'list', element: DYNAMIC };
+const RECORD: Type = { kind: 'record', fields: [], open: true };
+
+function fn(params: Array<[string, Type]>, returns: Type, effects?: Effect[]): FunctionType {
+  return {
+    kind: 'function',
+    params: params.map(([name, type]) => ({ name, type })),
+    returns,
+    ...(effects && { effects })
+  };
+}
+
+// Builtins are pure unless their type lists effects
+function builtin(name: string, type: FunctionType, description: string, impl: Builtin['impl']): Builtin {
+  return { name, type: { ...type, effects: type.effects || [] }, description, impl };
+}
+
+const CALLBACK = fn([['value', DYNAMIC]], DYNAMIC);
+
+function chunk<T>(items: T[], size: number): T[][] {
+  if (size < 1) {
+    throw new Error(`Chunk size must be at least 1, got ${size}`);
+  }
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Own fields only: every record inherits `constructor` and friends
+function hasField(record: object, field: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, field);
+}
+
+const STANDARD_BUILTINS: Builtin[] = [
+  // Strings
+  builtin('uppercase', fn([['text', STRING]], STRING), 'Convert to upper case',
+    ([text]) => text.toUpperCase()),
+  builtin('lowercase', fn([['text', STRING]], STRING), 'Convert to lower case',
+    ([text]) => text.toLowerCase()),
+  builtin('trim', fn([['text', STRING]], STRING), 'Remove leading and trailing whitespace',
+    ([text]) => text.trim()),
+  builtin('split', fn([['text', STRING], ['separator', STRING]], { kind: 'list', element: STRING }),
+    'Split text on a separator', ([text, separator]) => text.split(separator)),
+  builtin('join', fn([['items', LIST], ['separator', STRING]], STRING), 'Join list items with a separator',
+    ([items, separator]) => items.join(separator)),
+  builtin('replace', fn([['text', STRING], ['search', STRING], ['replacement', STRING]], STRING),
+    'Replace every occurrence of a substring', ([text, search, replacement]) => text.split(search).join(replacement)),
+  builtin('contains', fn([['text', STRING], ['search', STRING]], BOOLEAN), 'Whether text contains a substring',
+    ([text, search]) => text.includes(search)),
+  builtin('starts_with', fn([['text', STRING], ['prefix', STRING]], BOOLEAN), 'Whether text starts with a prefix',
+    ([text, prefix]) => text.startsWith(prefix)),
+  builtin('ends_with', fn([['text', STRING], ['suffix', STRING]], BOOLEAN), 'Whether text ends with a suffix',
+    ([text, suffix]) => text.endsWith(suffix)),
+  builtin('words', fn([['text', STRING]], { kind: 'list', element: STRING }), 'Split text into words',
+    ([text]) => text.split(/\s+/).filter((word: string) => word !== '')),
+  builtin('truncate', fn([['text', STRING], ['max_words', NUMBER]], STRING), 'Keep at most max_words words',
+    ([text, maxWords]) => text.split(/\s+/).filter((word: string) => word !== '').slice(0, maxWords).join(' ')),
+  builtin('to_string', fn([['value', DYNAMIC]], STRING), 'Render any value as text',
+    ([value]) => typeof value === 'string' ? value : JSON.stringify(value)),
+
+  // Lists
+  builtin('length', fn([['value', { kind: 'union', types: [STRING, LIST] }]], NUMBER), 'Length of a list or string',
+    ([value]) => {
+      if (typeof value !== 'string' && !Array.isArray(value)) {
+        throw new Error(`Expected a string or list, got ${value === null ? 'null' : typeof value}`);
+      }
+      return value.length;
+    }),
+  builtin('map', fn([['items', LIST], ['f', CALLBACK]], LIST), 'Apply a function to every item',
+    async ([items, f], call) => {
+      const results = [];
+      for (const item of items) {
+        results.push(await call(f, [item]));
+      }
+      return results;
+    }),
+  builtin('filter', fn([['items', LIST], ['keep', CALLBACK]], LIST), 'Keep the items for which keep returns true',
+    async ([items, keep], call) => {
+      const results = [];
+      for (const item of items) {
+        if (await call(keep, [item])) {
+          results.push(item);
+        }
+      }
+      return results;
+    }),
+  builtin('first', fn([['items', LIST]], DYNAMIC), 'First item, or null when empty',
+    ([items]) => items.length > 0 ? items[0] : null),
+  builtin('last', fn([['items', LIST]], DYNAMIC), 'Last item, or null when empty',
+    ([items]) => items.length > 0 ? items[items.length - 1] : null),
+  builtin('take', fn([['items', LIST], ['count', NUMBER]], LIST), 'The first count items',
+    ([items, count]) => items.slice(0, count)),
+  builtin('drop', fn([['items', LIST], ['count', NUMBER]], LIST), 'All but the first count items',
+    ([items, count]) => items.slice(count)),
+  builtin('concat', fn([['items', LIST], ['more', LIST]], LIST), 'Append one list to another',
+    ([items, more]) => [...items, ...more]),
+  builtin('reverse', fn([['items', LIST]], LIST), 'Items in reverse order',
+    ([items]) => [...items].reverse()),
+
+  // Records
+  builtin('keys', fn([['record', RECORD]], { kind: 'list', element: STRING }), 'Field names of a record',
+    ([record]) => Object.keys(record)),
+  builtin('values', fn([['record', RECORD]], LIST), 'Field values of a record',
+    ([record]) => Object.values(record)),
+  builtin('get', fn([['record', RECORD], ['field', STRING]], DYNAMIC), 'A field by name, or null when missing',
+    ([record, field]) => hasField(record, field) ? record[field] : null),
+  builtin('has', fn([['record', RECORD], ['field', STRING]], BOOLEAN), 'Whether a record has a field',
+    ([record, field]) => hasField(record, field)),
+  builtin('merge', fn([['record', RECORD], ['other', RECORD]], RECORD), 'Fields of both records; other wins on clashes',
+    ([record, other]) => ({ ...record, ...other })),
+
+  // JSON
+  builtin('json', fn([['value', DYNAMIC]], STRING), 'Pretty-printed JSON',
+    ([value]) => JSON.stringify(value, null, 2)),
+  builtin('parse_json', fn([['text', STRING]], DYNAMIC), 'Parse JSON text',
+    ([text]) => JSON.parse(text)),
+
+  // Regular expressions
+  builtin('matches', fn([['text', STRING], ['pattern', STRING]], BOOLEAN), 'Whether text matches a regular expression',
+    ([text, pattern]) => new RegExp(pattern).test(text)),
+  builtin('find_all', fn([['text', STRING], ['pattern', STRING]], { kind: 'list', element: STRING }),
+    'Every match of a regular expression', ([text, pattern]) => text.match(new RegExp(pattern, 'g')) || []),
+  builtin('replace_regex', fn([['text', STRING], ['pattern', STRING], ['replacement', STRING]], STRING),
+    'Replace every match of a regular expression', ([text, pattern, replacement]) => text.replace(new RegExp(pattern, 'g'), replacement)),
+
+  // Chunking, e.g. to fit long documents into several prompts
+  builtin('chunk', fn([['text', STRING], ['size', NUMBER]], { kind: 'list', element: STRING }),
+    'Split text into pieces of at most size characters', ([text, size]) => chunk(Array.from(text), size).map(c => c.join(''))),
+  builtin('chunk_words', fn([['text', STRING], ['size', NUMBER]], { kind: 'list', element: STRING }),
+    'Split text into pieces of at most size words',
+    ([text, size]) => chunk(text.split(/\s+/).filter((word: string) => word !== ''), size).map(c => c.join(' '))),
+  builtin('batch', fn([['items', LIST], ['size', NUMBER]], { kind: 'list', element: LIST }),
+    'Group list items into lists of at most size items', ([items, size]) => chunk(items, size)),
+
+  // Effects: results that depend on more than the arguments
+  builtin('random_int', fn([['max', NUMBER]], NUMBER, ['random']), 'A random whole number from 0 up to, but excluding, max',
+    ([max]) => Math.floor(Math.random() * max)),
+  builtin('shuffle', fn([['items', LIST]], LIST, ['random']), 'Items in random order',
+    ([items]) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }),
+  builtin('today', fn([['offset_days', NUMBER]], STRING, ['time']), "The date offset_days from today, as YYYY-MM-DD",
+    ([offsetDays]) => new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)),
+  builtin('read_file', fn([['path', STRING]], STRING, ['io']), 'Contents of a UTF-8 text file',
+    ([path]) => fs.readFileSync(path, 'utf-8'))
+];
+
+export function createStandardLibrary(): BuiltinRegistry {
+  const registry = new BuiltinRegistry();
+  for (const b of STANDARD_BUILTINS) {
+    registry.register(b);
+  }
+  return registry;
+}
+
+export const standardLibrary = createStandardLibrary();
@@ -1,4 +1,5 @@
 import { Schema } from '../types/schema';
+import { standardLibrary } from '../stdlib/builtins';
 
 export interface TemplateContext {
   variables: Map<string, any>;
@@ -14,11 +15,7 @@ export class TemplateEngine {
       variables: context?.variables || new Map(),
       schemas: context?.schemas || new Map(),
       functions: new Map([
-        ['uppercase', (s: string) => s.toUpperCase()],
-        ['lowercase', (s: string) => s.toLowerCase()],
-        ['trim', (s: string) => s.trim()],
-        ['json', (obj: any) => JSON.stringify(obj, null, 2)],
-        ['length', (arr: any[]) => arr.length],
+        ...standardLibrary.functions(),
         ...Array.from(context?.functions || [])
       ])
     };
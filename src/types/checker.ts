@@ -1,28 +1,93 @@
-import { ASTNode } from '../ast/types';
-import { Type, isSubtype } from './types';
+import { ASTNode, Effect, Pattern, Program, Type as SourceType } from '../ast/types';
+import {
+  GENERIC_LEVEL, Type, TypeVariable, ParameterType, RecordField, combineEffects, isSubtype, prune, unionType
+} from './types';
+import { BuiltinRegistry, standardLibrary } from '../stdlib/builtins';
+
+const STRING: Type = { kind: 'primitive', name: 'string' };
+const NUMBER: Type = { kind: 'primitive', name: 'number' };
+const BOOLEAN: Type = { kind: 'primitive', name: 'boolean' };
+
+// Operand and result types per operator, tried in order; the first that fits wins.
+// '==' and '!=' accept any pair of related types and are handled separately.
+const OPERATOR_OVERLOADS: Record<string, Array<{ left: Type; right: Type; result: Type }>> = {
+  '+': [
+    { left: NUMBER, right: NUMBER, result: NUMBER },
+    { left: STRING, right: STRING, result: STRING }
+  ],
+  '-': [{ left: NUMBER, right: NUMBER, result: NUMBER }],
+  '*': [{ left: NUMBER, right: NUMBER, result: NUMBER }],
+  '/': [{ left: NUMBER, right: NUMBER, result: NUMBER }],
+  '<': [
+    { left: NUMBER, right: NUMBER, result: BOOLEAN },
+    { left: STRING, right: STRING, result: BOOLEAN }
+  ],
+  '>': [
+    { left: NUMBER, right: NUMBER, result: BOOLEAN },
+    { left: STRING, right: STRING, result: BOOLEAN }
+  ],
+  '<=': [
+    { left: NUMBER, right: NUMBER, result: BOOLEAN },
+    { left: STRING, right: STRING, result: BOOLEAN }
+  ],
+  '>=': [
+    { left: NUMBER, right: NUMBER, result: BOOLEAN },
+    { left: STRING, right: STRING, result: BOOLEAN }
+  ],
+  'and': [{ left: BOOLEAN, right: BOOLEAN, result: BOOLEAN }],
+  'or': [{ left: BOOLEAN, right: BOOLEAN, result: BOOLEAN }]
+};
 
 export interface TypeEnvironment {
   bindings: Map<string, Type>;
   parent?: TypeEnvironment;
 }
 
+// The effects performed while checking one function body
+interface EffectScope {
+  effects: Set<Effect>;
+  // Something was called whose effects are not known
+  unknown: boolean;
+  pure: boolean;
+}
+
 export class TypeChecker {
   private globalEnv: TypeEnvironment;
   private errors: TypeError[] = [];
+  // Innermost function body last; top-level code is not in any
+  private effectScopes: EffectScope[] = [];
+  private nextVariable = 0;
+  // How many let bindings are being checked, one inside the other
+  private level = 0;
+  // Variables solved so far, so that a failed attempt can be undone
+  private trail: TypeVariable[] = [];
+  // Record types made up for values of unknown type from the fields read off them
+  private inferredRecords = new WeakSet<Type>();
 
-  constructor() {
+  constructor(builtins: BuiltinRegistry = standardLibrary) {
     this.globalEnv = {
-      bindings: new Map([
+      bindings: new Map<string, Type>([
         ['string', { kind: 'primitive', name: 'string' }],
         ['number', { kind: 'primitive', name: 'number' }],
         ['boolean', { kind: 'primitive', name: 'boolean' }],
+        ...builtins.types()
       ])
     };
   }
 
+  // A scope holding the given bindings (e.g. a module's imports) on top of the builtins
+  extendEnvironment(bindings: Map<string, Type>): TypeEnvironment {
+    return { bindings, parent: this.globalEnv };
+  }
+
   check(node: ASTNode, env?: TypeEnvironment): Type {
-    const currentEnv = env || this.globalEnv;
+    this.level++;
+    const type = this.infer(node, env || this.globalEnv);
+    this.level--;
+    return this.finalize(this.generalize(type));
+  }
 
+  private infer(node: ASTNode, currentEnv: TypeEnvironment): Type {
     switch (node.kind) {
       case 'literal':
         return this.checkLiteral(node);
@@ -48,11 +113,253 @@ export class TypeChecker {
       case 'type_annotation':
         return this.checkTypeAnnotation(node, currentEnv);
 
+      case 'defprompt':
+        return this.checkDefPrompt(node, currentEnv);
+
+      case 'case':
+        return this.checkCase(node, currentEnv);
+
+      case 'list_literal':
+        return this.checkListLiteral(node, currentEnv);
+
+      case 'record_literal':
+        return this.checkRecordLiteral(node, currentEnv);
+
+      case 'field_access':
+        return this.checkFieldAccess(node, currentEnv);
+
+      case 'binary':
+        return this.checkBinary(node, currentEnv);
+
+      case 'unary':
+        return this.checkUnary(node, currentEnv);
+
+      case 'error':
+        // Already reported by the parser
+        return { kind: 'any' };
+
       default:
         throw new TypeError(`Unknown node kind: ${(node as any).kind}`);
     }
   }
 
+  // Check each top-level declaration in order, returning the program's bindings
+  checkProgram(program: Program, env?: TypeEnvironment): TypeEnvironment {
+    const programEnv: TypeEnvironment = {
+      bindings: new Map(),
+      parent: env || this.globalEnv
+    };
+
+    for (const decl of program.declarations) {
+      switch (decl.kind) {
+        case 'defprompt':
+          programEnv.bindings.set(decl.name, this.inferBinding(decl, programEnv));
+          break;
+
+        case 'let_declaration':
+          for (const binding of decl.bindings) {
+            const valueType = this.inferBinding(binding.value, programEnv);
+            programEnv.bindings.set(binding.name, binding.type || valueType);
+          }
+          break;
+
+        case 'defschema':
+          for (const field of decl.fields) {
+            if (field.default) {
+              const defaultType = this.infer(field.default, programEnv);
+              if (!this.subtype(defaultType, field.type)) {
+                this.addError(
+                  `Default for ${decl.name}.${field.name} has type ${this.typeToString(defaultType)}, expected ${this.typeToString(field.type)}`,
+                  field.default.location
+                );
+              }
+            }
+          }
+          break;
+
+        case 'type_alias':
+        case 'import':
+        case 'error':
+          // None of these introduce a value binding
+          break;
+      }
+    }
+
+    // Other modules may import these, so no variable is left for them to solve
+    for (const [name, type] of programEnv.bindings) {
+      programEnv.bindings.set(name, this.finalize(type));
+    }
+
+    return programEnv;
+  }
+
+  // The type of a let-bound value. Functions are generalised: variables that
+  // nothing outside the binding constrains become generic, so that each use of
+  // the binding may give them different types.
+  private inferBinding(value: ASTNode, env: TypeEnvironment): Type {
+    this.level++;
+    const type = this.infer(value, env);
+    this.level--;
+
+    if (value.kind === 'lambda' || value.kind === 'defprompt') {
+      return this.generalize(type);
+    }
+    // Variables still open here may be solved by later code at this level
+    for (const variable of variablesOf(type)) {
+      variable.level = Math.min(variable.level, this.level);
+    }
+    return type;
+  }
+
+  private generalize(type: Type): Type {
+    for (const variable of variablesOf(type)) {
+      if (variable.level > this.level) {
+        variable.level = GENERIC_LEVEL;
+      }
+    }
+    return type;
+  }
+
+  // A use of a generalised type, with fresh variables for the generic ones
+  private instantiate(type: Type): Type {
+    if (!variablesOf(type).some(v => v.level === GENERIC_LEVEL)) {
+      return type;
+    }
+    const fresh = new Map<TypeVariable, Type>();
+    return mapVariables(type, v => {
+      if (v.level !== GENERIC_LEVEL) return v;
+      if (!fresh.has(v)) fresh.set(v, this.freshVariable());
+      return fresh.get(v)!;
+    });
+  }
+
+  // A type with solved variables replaced by their solutions. Variables that
+  // inference could not solve, and that are not generic, become dynamic.
+  private finalize(type: Type): Type {
+    return mapVariables(type, v => v.level === GENERIC_LEVEL ? v : { kind: 'dynamic' });
+  }
+
+  private freshVariable(): TypeVariable {
+    return { kind: 'var', id: this.nextVariable++, level: this.level };
+  }
+
+  // Whether `sub` fits `sup`, solving type variables so that it does. When it
+  // does not fit, any variables solved along the way are reset.
+  private subtype(sub: Type, sup: Type): boolean {
+    const mark = this.trail.length;
+    if (this.constrain(sub, sup)) {
+      return true;
+    }
+    this.undo(mark);
+    return false;
+  }
+
+  // Whether `sub` could fit `sup`, without solving anything
+  private couldBeSubtype(sub: Type, sup: Type): boolean {
+    const mark = this.trail.length;
+    const fits = this.constrain(sub, sup);
+    this.undo(mark);
+    return fits;
+  }
+
+  private undo(mark: number): void {
+    while (this.trail.length > mark) {
+      delete this.trail.pop()!.instance;
+    }
+  }
+
+  // isSubtype for types that may still contain variables. A variable is solved
+  // to the type on the other side, as in unification.
+  private constrain(sub: Type, sup: Type): boolean {
+    sub = prune(sub);
+    sup = prune(sup);
+
+    if (sub === sup || sup.kind === 'any' || (sup.kind === 'dynamic' && !sup.constraint) || sub.kind === 'never') {
+      return true;
+    }
+    if (sub.kind === 'var') {
+      return this.bind(sub, sup);
+    }
+    if (sup.kind === 'var') {
+      return this.bind(sup, sub);
+    }
+    if (variablesOf(sub).length === 0 && variablesOf(sup).length === 0) {
+      return isSubtype(sub, sup);
+    }
+
+    if (sub.kind === 'dynamic') {
+      return true;
+    }
+    if (sup.kind === 'dynamic') {
+      return this.constrain(sub, sup.constraint!);
+    }
+    if (sub.kind === 'union') {
+      return sub.types.every(t => this.constrain(t, sup));
+    }
+    if (sup.kind === 'intersection') {
+      return sup.types.every(t => this.constrain(sub, t));
+    }
+    if (sub.kind === 'intersection') {
+      return sub.types.some(t => this.subtype(t, sup));
+    }
+
+    if (sub.kind === 'list' && sup.kind === 'list') {
+      return this.constrain(sub.element, sup.element);
+    }
+    if (sub.kind === 'record' && sup.kind === 'record') {
+      return sup.fields.every(supField => {
+        const subField = this.recordField(sub, supField.name);
+        return subField ? this.constrain(subField.type, supField.type) : !!supField.optional;
+      });
+    }
+    if (sub.kind === 'function' && sup.kind === 'function') {
+      return sup.params.length <= sub.params.length &&
+        sub.params.every((param, i) =>
+          i < sup.params.length ? this.constrain(sup.params[i].type, param.type) : !!param.optional
+        ) &&
+        this.constrain(sub.returns, sup.returns) &&
+        (!sub.effects || !sup.effects || sub.effects.every(e => sup.effects!.includes(e)));
+    }
+    if (sub.kind === 'prompt' && sup.kind === 'prompt') {
+      return this.constrain(sup.input, sub.input) && this.constrain(sub.output, sup.output);
+    }
+
+    if (sup.kind === 'union') {
+      return sup.types.some(t => this.subtype(sub, t));
+    }
+    return false;
+  }
+
+  private bind(variable: TypeVariable, type: Type): boolean {
+    if (type === variable) {
+      return true;
+    }
+
+    const inner = variablesOf(type);
+    // No infinite types, e.g. from applying a parameter to itself
+    if (inner.includes(variable)) {
+      return false;
+    }
+    // The solution is now as visible as the variable was
+    for (const v of inner) {
+      v.level = Math.min(v.level, variable.level);
+    }
+
+    variable.instance = type;
+    this.trail.push(variable);
+    return true;
+  }
+
+  // A record's field; records inferred from field reads gain fields as they are used
+  private recordField(type: Extract<Type, { kind: 'record' }>, name: string): RecordField | undefined {
+    let field = type.fields.find(f => f.name === name);
+    if (!field && this.inferredRecords.has(type)) {
+      field = { name, type: this.freshVariable() };
+      type.fields.push(field);
+    }
+    return field;
+  }
+
   private checkLiteral(node: any): Type {
     const value = node.value;
 
@@ -75,7 +382,7 @@ export class TypeChecker {
       this.addError(`Undefined identifier: ${node.name}`, node.location);
       return { kind: 'any' };
     }
-    return type;
+    return this.instantiate(type);
   }
 
   private checkLambda(node: any, env: TypeEnvironment): Type {
@@ -84,56 +391,176 @@ export class TypeChecker {
       parent: env
     };
 
-    const paramTypes: any[] = [];
+    const { result: [paramTypes, bodyType], effects } = this.withEffectScope(!!node.pure, () => [
+      this.checkParameters(node.params, env, newEnv),
+      this.infer(node.body, newEnv)
+    ] as const);
 
-    for (const param of node.params) {
-      const paramType = param.type || { kind: 'dynamic' };
-      paramTypes.push({
-        name: param.name,
-        type: paramType,
-        optional: param.defaultValue !== undefined
-      });
-      newEnv.bindings.set(param.name, paramType);
+    if (node.returnType && !this.subtype(bodyType, node.returnType)) {
+      this.addError(
+        `Lambda body has type ${this.typeToString(bodyType)}, expected ${this.typeToString(node.returnType)}`,
+        node.body.location
+      );
     }
 
-    const bodyType = this.check(node.body, newEnv);
-
     return {
       kind: 'function',
       params: paramTypes,
-      returns: node.returnType || bodyType
+      returns: node.returnType || bodyType,
+      effects
     };
   }
 
-  private checkApplication(node: any, env: TypeEnvironment): Type {
-    const funcType = this.check(node.func, env);
+  // Run `check` as the body of a function, returning the effects it performs.
+  // Defaults are evaluated on each call, so parameters belong to the body too.
+  private withEffectScope<T>(pure: boolean, check: () => T): { result: T; effects?: Effect[] } {
+    const scope: EffectScope = { effects: new Set(), unknown: false, pure };
+    this.effectScopes.push(scope);
+    try {
+      const result = check();
+      return { result, effects: scope.unknown ? undefined : Array.from(scope.effects).sort() };
+    } finally {
+      this.effectScopes.pop();
+    }
+  }
 
-    if (funcType.kind !== 'function') {
-      this.addError(`Cannot apply non-function type: ${funcType.kind}`, node.location);
-      return { kind: 'any' };
+  // Record the effects of a call in the enclosing function body. A pure body
+  // may not call anything whose effects are unknown (undefined) either.
+  private perform(effects: Effect[] | undefined, callee: string, location: any): void {
+    const scope = this.effectScopes[this.effectScopes.length - 1];
+    if (!scope) {
+      return;
+    }
+    if (!effects) {
+      if (scope.pure) {
+        this.addError(`Pure function cannot call ${callee}, whose effects are unknown`, location);
+      }
+      scope.unknown = true;
+      return;
+    }
+    if (effects.length === 0) {
+      return;
+    }
+
+    if (scope.pure) {
+      this.addError(`Pure function cannot call ${callee}, which performs ${effects.join(', ')}`, location);
     }
+    for (const effect of effects) {
+      scope.effects.add(effect);
+    }
+  }
 
-    const argTypes = node.args.map((arg: ASTNode) => this.check(arg, env));
+  // Functions passed as arguments are assumed to be called
+  private argumentEffects(argTypes: Type[]): Effect[] | undefined {
+    return combineEffects(...argTypes.map(prune).map(t => t.kind === 'function' ? t.effects : []));
+  }
 
-    // Check argument count
-    const required = funcType.params.filter((p: any) => !p.optional).length;
-    if (argTypes.length < required) {
-      this.addError(`Too few arguments: expected at least ${required}, got ${argTypes.length}`, node.location);
+  // Whether the innermost function body being checked is marked `pure`
+  private inPureScope(): boolean {
+    return !!this.effectScopes[this.effectScopes.length - 1]?.pure;
+  }
+
+  private calleeName(node: any): string {
+    return node.kind === 'identifier' ? node.name : 'a function';
+  }
+
+  // Bind each parameter in `scope`. Defaults are checked in the defining
+  // environment and give an unannotated parameter its type; other
+  // unannotated parameters are inferred from how the body uses them.
+  private checkParameters(params: any[], env: TypeEnvironment, scope: TypeEnvironment): ParameterType[] {
+    return params.map(param => {
+      let paramType: Type = param.type || this.freshVariable();
+
+      if (param.defaultValue) {
+        const defaultType = this.infer(param.defaultValue, env);
+        if (!param.type) {
+          paramType = defaultType;
+        } else if (!this.subtype(defaultType, param.type)) {
+          this.addError(
+            `Default for parameter ${param.name} has type ${this.typeToString(defaultType)}, expected ${this.typeToString(param.type)}`,
+            param.defaultValue.location
+          );
+        }
+      }
+
+      scope.bindings.set(param.name, paramType);
+      return {
+        name: param.name,
+        type: paramType,
+        optional: param.defaultValue !== undefined
+      };
+    });
+  }
+
+  private checkApplication(node: any, env: TypeEnvironment): Type {
+    const funcType = this.infer(node.func, env);
+    const argTypes = node.args.map((arg: ASTNode) => this.infer(arg, env));
+    return this.applyType(funcType, argTypes, node.location, this.calleeName(node.func));
+  }
+
+  private applyType(funcType: Type, argTypes: Type[], location: any, callee: string): Type {
+    funcType = prune(funcType);
+
+    // A value of unknown type that is called must be a function taking these
+    // arguments, and one without effects when called from a pure body
+    if (funcType.kind === 'var') {
+      const returns = this.freshVariable();
+      const solved = this.bind(funcType, {
+        kind: 'function',
+        params: argTypes.map((type, i) => ({ name: `arg${i + 1}`, type })),
+        returns,
+        ...(this.inPureScope() && { effects: [] })
+      });
+      this.perform(this.inPureScope() ? this.argumentEffects(argTypes) : undefined, callee, location);
+      if (solved) {
+        return returns;
+      }
+      // Applied to itself: no finite type fits, so it is checked at runtime
+      this.bind(funcType, { kind: 'dynamic' });
+      this.perform(undefined, callee, location);
+      return { kind: 'dynamic' };
     }
-    if (argTypes.length > funcType.params.length) {
-      this.addError(`Too many arguments: expected at most ${funcType.params.length}, got ${argTypes.length}`, node.location);
+
+    // Gradual typing: calls through untyped values are checked at runtime
+    if (funcType.kind === 'any' || funcType.kind === 'dynamic') {
+      this.perform(undefined, callee, location);
+      return funcType;
+    }
+
+    if (funcType.kind !== 'function') {
+      this.addError(`Cannot apply non-function type: ${funcType.kind}`, location);
+      return { kind: 'any' };
     }
 
     // Check argument types
-    for (let i = 0; i < Math.min(argTypes.length, funcType.params.length); i++) {
-      if (!isSubtype(argTypes[i], funcType.params[i].type)) {
+    const params = funcType.params;
+    for (let i = 0; i < Math.min(argTypes.length, params.length); i++) {
+      if (!this.subtype(argTypes[i], params[i].type)) {
         this.addError(
-          `Type mismatch in argument ${i + 1}: expected ${this.typeToString(funcType.params[i].type)}, got ${this.typeToString(argTypes[i])}`,
-          node.location
+          `Type mismatch in argument ${i + 1}: expected ${this.typeToString(params[i].type)}, got ${this.typeToString(argTypes[i])}`,
+          location
         );
       }
     }
 
+    // Functions are curried: too few arguments leave a function of the rest,
+    // and extra arguments are applied to the result
+    const required = params.filter((p: any) => !p.optional).length;
+    const given = argTypes.slice(0, params.length);
+    if (argTypes.length < required) {
+      return {
+        kind: 'function',
+        params: params.slice(argTypes.length),
+        returns: funcType.returns,
+        effects: combineEffects(funcType.effects, this.argumentEffects(given))
+      };
+    }
+
+    this.perform(combineEffects(funcType.effects, this.argumentEffects(given)), callee, location);
+    if (argTypes.length > params.length) {
+      return this.applyType(funcType.returns, argTypes.slice(params.length), location, callee);
+    }
+
     return funcType.returns;
   }
 
@@ -143,11 +570,12 @@ export class TypeChecker {
       parent: env
     };
 
+    // Bindings are sequential, as at the top level: each sees the ones before it
     for (const binding of node.bindings) {
-      const valueType = this.check(binding.value, env);
+      const valueType = this.inferBinding(binding.value, newEnv);
       const bindingType = binding.type || valueType;
 
-      if (!isSubtype(valueType, bindingType)) {
+      if (!this.subtype(valueType, bindingType)) {
         this.addError(
           `Type mismatch in binding ${binding.name}: expected ${this.typeToString(bindingType)}, got ${this.typeToString(valueType)}`,
           node.location
@@ -157,25 +585,43 @@ export class TypeChecker {
       newEnv.bindings.set(binding.name, bindingType);
     }
 
-    return this.check(node.body, newEnv);
+    return this.infer(node.body, newEnv);
   }
 
   private checkPipeline(node: any, env: TypeEnvironment): Type {
-    let currentType = this.check(node.stages[0], env);
+    let currentType = this.infer(node.stages[0], env);
 
     for (let i = 1; i < node.stages.length; i++) {
-      const stageType = this.check(node.stages[i], env);
+      const stage = node.stages[i];
+
+      // `x |> f a` calls `f x a`
+      if (stage.kind === 'application') {
+        const argTypes = stage.args.map((arg: ASTNode) => this.infer(arg, env));
+        currentType = this.applyType(
+          this.infer(stage.func, env), [currentType, ...argTypes], stage.location, this.calleeName(stage.func)
+        );
+        continue;
+      }
+
+      const stageType = prune(this.infer(stage, env));
 
-      if (stageType.kind === 'function') {
+      if (stageType.kind === 'var') {
+        currentType = this.applyType(stageType, [currentType], stage.location, this.calleeName(stage));
+      } else if (stageType.kind === 'function') {
         const params = stageType.params;
         if (params.length === 0) {
           this.addError(`Pipeline stage ${i} expects no arguments`, node.location);
-        } else if (!isSubtype(currentType, params[0].type)) {
+        } else if (!this.subtype(currentType, params[0].type)) {
           this.addError(
             `Type mismatch in pipeline stage ${i}: expected ${this.typeToString(params[0].type)}, got ${this.typeToString(currentType)}`,
             node.location
           );
         }
+        this.perform(
+          combineEffects(stageType.effects, this.argumentEffects([currentType])),
+          this.calleeName(stage),
+          stage.location
+        );
         currentType = stageType.returns;
       } else {
         this.addError(`Pipeline stage ${i} is not a function`, node.location);
@@ -189,16 +635,16 @@ export class TypeChecker {
   private checkTemplate(node: any, env: TypeEnvironment): Type {
     for (const part of node.parts) {
       if (part.kind === 'interpolation') {
-        this.check(part.expression, env);
+        this.infer(part.expression, env);
       }
     }
     return { kind: 'primitive', name: 'string' };
   }
 
   private checkTypeAnnotation(node: any, env: TypeEnvironment): Type {
-    const exprType = this.check(node.expression, env);
+    const exprType = this.infer(node.expression, env);
 
-    if (!isSubtype(exprType, node.type)) {
+    if (!this.subtype(exprType, node.type)) {
       this.addError(
         `Type annotation mismatch: expression has type ${this.typeToString(exprType)}, but annotated as ${this.typeToString(node.type)}`,
         node.location
@@ -208,6 +654,317 @@ export class TypeChecker {
     return node.type;
   }
 
+  private checkDefPrompt(node: any, env: TypeEnvironment): Type {
+    const newEnv: TypeEnvironment = {
+      bindings: new Map(),
+      parent: env
+    };
+
+    // The body renders the text sent to the model; the declared type is what the model returns
+    const { result: [paramTypes, bodyType], effects } = this.withEffectScope(false, () => [
+      this.checkParameters(node.params, env, newEnv),
+      this.infer(node.body, newEnv)
+    ] as const);
+    if (!this.subtype(bodyType, { kind: 'primitive', name: 'string' })) {
+      this.addError(
+        `Prompt ${node.name} body must produce a string, got ${this.typeToString(bodyType)}`,
+        node.location
+      );
+    }
+
+    return {
+      kind: 'function',
+      params: paramTypes,
+      returns: node.returnType || { kind: 'primitive', name: 'string' },
+      effects: combineEffects(['llm'], effects)
+    };
+  }
+
+  private checkListLiteral(node: any, env: TypeEnvironment): Type {
+    const elementTypes = node.elements.map((element: ASTNode) => this.infer(element, env));
+
+    return {
+      kind: 'list',
+      element: unionType(...elementTypes)
+    };
+  }
+
+  private checkRecordLiteral(node: any, env: TypeEnvironment): Type {
+    return {
+      kind: 'record',
+      fields: node.fields.map((field: any) => ({
+        name: field.name,
+        type: this.infer(field.value, env)
+      }))
+    };
+  }
+
+  private checkBinary(node: any, env: TypeEnvironment): Type {
+    const leftType = this.infer(node.left, env);
+    const rightType = this.infer(node.right, env);
+
+    if (node.operator === '==' || node.operator === '!=') {
+      if (!this.subtype(leftType, rightType) && !this.subtype(rightType, leftType)) {
+        this.addError(
+          `Cannot compare ${this.typeToString(leftType)} with ${this.typeToString(rightType)}`,
+          node.location
+        );
+      }
+      return BOOLEAN;
+    }
+
+    const candidates = OPERATOR_OVERLOADS[node.operator].filter(o =>
+      this.couldBeSubtype(leftType, o.left) && this.couldBeSubtype(rightType, o.right)
+    );
+    if (candidates.length === 0) {
+      this.addError(
+        `Operator ${node.operator} cannot be applied to ${this.typeToString(leftType)} and ${this.typeToString(rightType)}`,
+        node.location
+      );
+      return { kind: 'any' };
+    }
+
+    // Operands of unknown type that several overloads accept stay unknown, e.g. in `(a, b) -> a + b`
+    const unknown = variablesOf(leftType).length > 0 || variablesOf(rightType).length > 0;
+    if (unknown && candidates.length > 1) {
+      return candidates.every(o => o.result === candidates[0].result) ? candidates[0].result : { kind: 'dynamic' };
+    }
+
+    const overload = candidates[0];
+    this.subtype(leftType, overload.left);
+    this.subtype(rightType, overload.right);
+    return overload.result;
+  }
+
+  private checkUnary(node: any, env: TypeEnvironment): Type {
+    const operandType = this.infer(node.operand, env);
+    const expected = node.operator === '-' ? NUMBER : BOOLEAN;
+
+    if (!this.subtype(operandType, expected)) {
+      this.addError(
+        `Operator ${node.operator} cannot be applied to ${this.typeToString(operandType)}`,
+        node.location
+      );
+    }
+
+    return expected;
+  }
+
+  private checkFieldAccess(node: any, env: TypeEnvironment): Type {
+    const objectType = prune(this.infer(node.object, env));
+    const found = this.lookupType(node.field, env);
+    const method = found && prune(this.instantiate(found));
+
+    // A value of unknown type is a record with this field, unless it could be a method call
+    if (objectType.kind === 'var' && !(method?.kind === 'function' && method.params.length > 0)) {
+      const fieldType = this.freshVariable();
+      const record: Type = { kind: 'record', fields: [{ name: node.field, type: fieldType }], open: true };
+      this.inferredRecords.add(record);
+      this.bind(objectType, record);
+      return fieldType;
+    }
+
+    const fieldType = objectType.kind === 'var' ? undefined : this.fieldType(objectType, node.field);
+    if (fieldType) {
+      return fieldType;
+    }
+
+    // Method-style call: value.fn passes value as the first argument of fn
+    if (method && method.kind === 'function' && method.params.length > 0 &&
+        this.subtype(objectType, method.params[0].type)) {
+      const rest = method.params.slice(1);
+      if (rest.every(p => p.optional)) {
+        this.perform(method.effects, node.field, node.location);
+        return method.returns;
+      }
+      return { ...method, params: rest };
+    }
+
+    this.addError(
+      `Unknown field ${node.field} on type ${this.typeToString(objectType)}`,
+      node.location
+    );
+    return { kind: 'any' };
+  }
+
+  // Type of a field read, or undefined when the type has no such field
+  private fieldType(type: Type, name: string): Type | undefined {
+    type = prune(type);
+    switch (type.kind) {
+      case 'any':
+      case 'dynamic':
+        return { kind: 'dynamic' };
+
+      case 'record': {
+        const field = this.recordField(type, name);
+        if (!field) {
+          return type.open ? { kind: 'dynamic' } : undefined;
+        }
+        // Optional fields may be absent in the actual value
+        return field.optional
+          ? unionType(field.type, { kind: 'primitive', name: 'null' })
+          : field.type;
+      }
+
+      case 'union': {
+        const memberTypes: Type[] = [];
+        for (const member of type.types) {
+          const memberType = this.fieldType(member, name);
+          if (!memberType) return undefined;
+          memberTypes.push(memberType);
+        }
+        return unionType(...memberTypes);
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  private checkCase(node: any, env: TypeEnvironment): Type {
+    const scrutineeType = this.infer(node.scrutinee, env);
+    const armTypes: Type[] = [];
+
+    for (const clause of node.clauses) {
+      const clauseEnv: TypeEnvironment = {
+        bindings: new Map(),
+        parent: env
+      };
+
+      const narrowed = this.narrowType(scrutineeType, clause.pattern);
+      if (narrowed.kind === 'never') {
+        this.addError(
+          `Pattern can never match a value of type ${this.typeToString(scrutineeType)}`,
+          clause.location
+        );
+      }
+
+      // A matched identifier takes the narrowed type inside its branch
+      if (node.scrutinee.kind === 'identifier') {
+        clauseEnv.bindings.set(node.scrutinee.name, narrowed);
+      }
+      this.bindPattern(clause.pattern, narrowed, clauseEnv);
+
+      if (clause.guard) {
+        const guardType = this.infer(clause.guard, clauseEnv);
+        if (!this.subtype(guardType, { kind: 'primitive', name: 'boolean' })) {
+          this.addError(`Guard must be boolean, got ${this.typeToString(guardType)}`, clause.location);
+        }
+      }
+
+      armTypes.push(this.infer(clause.body, clauseEnv));
+    }
+
+    return unionType(...armTypes);
+  }
+
+  // Restrict a type to the values a pattern can match; never if none can
+  private narrowType(type: Type, pattern: Pattern): Type {
+    type = prune(type);
+    if (pattern.kind === 'wildcard_pattern' || pattern.kind === 'variable_pattern') {
+      return type;
+    }
+
+    // Patterns do not solve variables; a scrutinee of unknown type is matched gradually
+    if (type.kind === 'any' || type.kind === 'dynamic' || type.kind === 'var') {
+      return type;
+    }
+
+    if (type.kind === 'union') {
+      return unionType(...type.types.map(t => this.narrowType(t, pattern)));
+    }
+
+    switch (pattern.kind) {
+      case 'literal_pattern': {
+        const literalType = this.checkLiteral(pattern);
+        return isSubtype(literalType, type) ? type : { kind: 'never' };
+      }
+
+      case 'record_pattern': {
+        if (type.kind !== 'record') return { kind: 'never' };
+
+        const fields: RecordField[] = type.fields.map(f => ({ ...f }));
+        for (const fieldPattern of pattern.fields) {
+          const field = fields.find(f => f.name === fieldPattern.name);
+          if (!field) {
+            if (type.open) continue;
+            return { kind: 'never' };
+          }
+
+          const fieldType = field.optional
+            ? unionType(field.type, { kind: 'primitive', name: 'null' })
+            : field.type;
+          const narrowedField = this.narrowType(fieldType, fieldPattern.pattern);
+          if (narrowedField.kind === 'never') return { kind: 'never' };
+          field.type = narrowedField;
+        }
+
+        return { ...type, fields };
+      }
+
+      case 'list_pattern': {
+        if (type.kind !== 'list') return { kind: 'never' };
+
+        const element = type.element;
+        const matches = pattern.elements.every(p => this.narrowType(element, p).kind !== 'never');
+        return matches ? type : { kind: 'never' };
+      }
+    }
+  }
+
+  private bindPattern(pattern: Pattern, type: Type, env: TypeEnvironment): void {
+    switch (pattern.kind) {
+      case 'variable_pattern':
+        env.bindings.set(pattern.name, type);
+        break;
+
+      case 'record_pattern':
+        for (const field of pattern.fields) {
+          const fieldType = this.patternFieldType(type, field.name);
+          this.bindPattern(field.pattern, this.narrowType(fieldType, field.pattern), env);
+        }
+        break;
+
+      case 'list_pattern': {
+        const elementType = this.patternElementType(type);
+        for (const element of pattern.elements) {
+          this.bindPattern(element, this.narrowType(elementType, element), env);
+        }
+        break;
+      }
+    }
+  }
+
+  private patternFieldType(type: Type, name: string): Type {
+    type = prune(type);
+    switch (type.kind) {
+      case 'record': {
+        const field = type.fields.find(f => f.name === name);
+        return field ? field.type : { kind: 'dynamic' };
+      }
+      case 'union':
+        return unionType(...type.types.map(t => this.patternFieldType(t, name)));
+      case 'never':
+        return type;
+      default:
+        return { kind: 'dynamic' };
+    }
+  }
+
+  private patternElementType(type: Type): Type {
+    type = prune(type);
+    switch (type.kind) {
+      case 'list':
+        return type.element;
+      case 'union':
+        return unionType(...type.types.map(t => this.patternElementType(t)));
+      case 'never':
+        return type;
+      default:
+        return { kind: 'dynamic' };
+    }
+  }
+
   private lookupType(name: string, env: TypeEnvironment): Type | undefined {
     const type = env.bindings.get(name);
     if (type) return type;
@@ -219,20 +976,41 @@ export class TypeChecker {
     this.errors.push(new TypeError(message, location));
   }
 
-  private typeToString(type: Type): string {
+  // Variables print as 'a, 'b, ... in order of appearance within one type
+  private typeToString(type: Type, names: Map<TypeVariable, string> = new Map()): string {
+    type = prune(type);
+    const show = (t: Type) => this.typeToString(t, names);
+
+    // Types written by name, such as `x :: Resume`, print as that name
+    const alias = (type as SourceType).alias;
+    if (alias) {
+      return alias;
+    }
+
     switch (type.kind) {
       case 'primitive':
         return type.name;
-      case 'function':
-        return `(${type.params.map((p: any) => this.typeToString(p.type)).join(', ')}) -> ${this.typeToString(type.returns)}`;
+      // Known effects show as `pure (string) -> string` or `(string) -> string ! llm`
+      case 'function': {
+        const pure = type.effects?.length === 0 ? 'pure ' : '';
+        const effects = type.effects?.length ? ` ! ${type.effects.join(', ')}` : '';
+        return `${pure}(${type.params.map(p => show(p.type)).join(', ')}) -> ${show(type.returns)}${effects}`;
+      }
       case 'union':
-        return type.types.map(t => this.typeToString(t)).join(' | ');
+        return type.types.map(show).join(' | ');
+      case 'intersection':
+        return type.types.map(show).join(' & ');
       case 'list':
-        return `[${this.typeToString(type.element)}]`;
+        return `[${show(type.element)}]`;
       case 'record':
-        return `{${type.fields.map((f: any) => `${f.name}: ${this.typeToString(f.type)}`).join(', ')}}`;
+        return `{${type.fields.map(f => `${f.name}: ${show(f.type)}${f.optional ? '?' : ''}`).join(', ')}}`;
       case 'prompt':
-        return `prompt<${this.typeToString(type.output)}>`;
+        return `prompt<${show(type.output)}>`;
+      case 'var':
+        if (!names.has(type)) {
+          names.set(type, names.size < 26 ? `'${String.fromCharCode(97 + names.size)}` : `'t${names.size}`);
+        }
+        return names.get(type)!;
       case 'dynamic':
         return 'dynamic';
       case 'any':
@@ -249,6 +1027,101 @@ export class TypeChecker {
   }
 }
 
+// The unsolved variables in a type, each once
+function variablesOf(type: Type, found: TypeVariable[] = []): TypeVariable[] {
+  type = prune(type);
+  switch (type.kind) {
+    case 'var':
+      if (!found.includes(type)) {
+        found.push(type);
+      }
+      break;
+    case 'function':
+      type.params.forEach(p => variablesOf(p.type, found));
+      variablesOf(type.returns, found);
+      break;
+    case 'union':
+    case 'intersection':
+      type.types.forEach(t => variablesOf(t, found));
+      break;
+    case 'list':
+      variablesOf(type.element, found);
+      break;
+    case 'record':
+      type.fields.forEach(f => variablesOf(f.type, found));
+      break;
+    case 'prompt':
+      variablesOf(type.input, found);
+      variablesOf(type.output, found);
+      break;
+    case 'dynamic':
+      if (type.constraint) {
+        variablesOf(type.constraint, found);
+      }
+      break;
+  }
+  return found;
+}
+
+// A copy of a type with solved variables replaced by their solutions and
+// unsolved ones by `replace`; types without variables are shared, not copied
+function mapVariables(type: Type, replace: (variable: TypeVariable) => Type): Type {
+  type = prune(type);
+  if (type.kind === 'var') {
+    return replace(type);
+  }
+  if (!containsVariables(type)) {
+    return type;
+  }
+
+  const map = (t: Type) => mapVariables(t, replace);
+  switch (type.kind) {
+    case 'function':
+      return { ...type, params: type.params.map(p => ({ ...p, type: map(p.type) })), returns: map(type.returns) };
+    // Members may turn out to be the same once solved
+    case 'union': {
+      const members = unionType(...type.types.map(map));
+      const alias = (type as SourceType).alias;
+      return alias ? Object.assign({}, members, { alias }) : members;
+    }
+    case 'intersection':
+      return { ...type, types: type.types.map(map) };
+    case 'list':
+      return { ...type, element: map(type.element) };
+    case 'record':
+      return { ...type, fields: type.fields.map(f => ({ ...f, type: map(f.type) })) };
+    case 'prompt':
+      return { ...type, input: map(type.input), output: map(type.output) };
+    case 'dynamic':
+      return type.constraint ? { ...type, constraint: map(type.constraint) } : type;
+    default:
+      return type;
+  }
+}
+
+// Whether a variable occurs in a type, solved or not
+function containsVariables(type: Type): boolean {
+  switch (type.kind) {
+    case 'var':
+      return true;
+    case 'function':
+      return type.params.some(p => containsVariables(p.type)) || containsVariables(type.returns);
+    case 'union':
+    case 'intersection':
+      return type.types.some(containsVariables);
+    case 'list':
+      return containsVariables(type.element);
+    case 'record':
+      return type.fields.some(f => containsVariables(f.type));
+    case 'prompt':
+      return containsVariables(type.input) || containsVariables(type.output);
+    case 'dynamic':
+      return !!type.constraint && containsVariables(type.constraint);
+    default:
+      return false;
+  }
+}
+
 export class TypeError extends Error {
   constructor(message: string, public location?: any) {
     super(message);
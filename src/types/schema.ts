@@ -1,3 +1,4 @@
+import { ASTNode, DefSchema } from '../ast/types';
 import { Type, RecordType } from './types';
 
 export interface SchemaDefinition {
@@ -19,6 +20,34 @@ export interface SchemaField {
 export class Schema {
   constructor(private definition: SchemaDefinition) {}
 
+  // Build the runtime schema for a `defschema` declaration
+  static fromDeclaration(decl: DefSchema): Schema {
+    return new Schema({
+      name: decl.name,
+      description: decl.description,
+      fields: decl.fields.map(field => ({
+        name: field.name,
+        type: field.type,
+        required: field.required,
+        description: field.description,
+        default: field.default ? constantValue(field.default) : undefined
+      }))
+    });
+  }
+
+  // The runtime schema for a record type, e.g. a defprompt's declared return type
+  static fromRecordType(name: string, type: RecordType): Schema {
+    return new Schema({
+      name,
+      fields: type.fields.map(field => ({
+        name: field.name,
+        type: field.type,
+        required: !field.optional,
+        description: field.description
+      }))
+    });
+  }
+
   toType(): RecordType {
     return {
       kind: 'record',
@@ -282,4 +311,23 @@ export interface ValidationResult {
 export interface ValidationError {
   path: string;
   message: string;
-}
\ No newline at end of file
+}
+
+// The value of a constant expression, as accepted for `defschema` field defaults
+export function constantValue(node: ASTNode): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'unary':
+      if (node.operator === '-') {
+        return -constantValue(node.operand);
+      }
+      break;
+    case 'list_literal':
+      return node.elements.map(constantValue);
+    case 'record_literal':
+      return Object.fromEntries(node.fields.map(field => [field.name, constantValue(field.value)]));
+  }
+
+  throw new Error(`Not a constant expression: ${node.kind}`);
+}
@@ -1,3 +1,7 @@
+import { Effect } from '../ast/types';
+
+export { Effect };
+
 // Extended type system with set-theoretic types
 export type Type =
   | PrimitiveType
@@ -9,7 +13,8 @@ export type Type =
   | RecordType
   | DynamicType
   | AnyType
-  | NeverType;
+  | NeverType
+  | TypeVariable;
 
 export interface PrimitiveType {
   kind: 'primitive';
@@ -28,7 +33,17 @@ export interface FunctionType {
   kind: 'function';
   params: ParameterType[];
   returns: Type;
-  effects?: string[];
+  // What calling the function may do besides computing its result, e.g. ['llm'];
+  // [] for a pure function, undefined when unknown
+  effects?: Effect[];
+}
+
+// Combined effects, in a stable order; unknown when any part is unknown
+export function combineEffects(...effects: Array<Effect[] | undefined>): Effect[] | undefined {
+  if (effects.some(e => e === undefined)) {
+    return undefined;
+  }
+  return Array.from(new Set(effects.flatMap(e => e!))).sort();
 }
 
 export interface ParameterType {
@@ -81,11 +96,58 @@ export interface NeverType {
   kind: 'never';
 }
 
+// A type still being inferred by the checker. `instance` is set once it is
+// solved. `level` is the let-nesting depth where it was created, or
+// GENERIC_LEVEL once generalised, after which each use gets a fresh copy.
+export interface TypeVariable {
+  kind: 'var';
+  id: number;
+  level: number;
+  instance?: Type;
+}
+
+export const GENERIC_LEVEL = Infinity;
+
+// The type a variable has been solved to, following chains of variables
+export function prune(type: Type): Type {
+  while (type.kind === 'var' && type.instance) {
+    type = type.instance;
+  }
+  return type;
+}
+
 // Type utilities
 export function isSubtype(sub: Type, sup: Type): boolean {
+  sub = prune(sub);
+  sup = prune(sup);
+  // Unsolved variables are checked gradually; the checker solves them instead
+  if (sub.kind === 'var' || sup.kind === 'var') return true;
   if (sup.kind === 'any') return true;
   if (sub.kind === 'never') return true;
   if (sub.kind === 'dynamic') return true;
+  if (sup.kind === 'dynamic') {
+    const constraint = (sup as DynamicType).constraint;
+    return !constraint || isSubtype(sub, constraint);
+  }
+
+  // Every member of a union must fit; an intersection must fit every part
+  if (sub.kind === 'union') {
+    return (sub as UnionType).types.every(t => isSubtype(t, sup));
+  }
+  if (sup.kind === 'intersection') {
+    return (sup as IntersectionType).types.every(t => isSubtype(sub, t));
+  }
+  if (sub.kind === 'intersection') {
+    const parts = (sub as IntersectionType).types;
+    if (parts.length > 0 && parts.every(t => t.kind === 'record')) {
+      const merged: RecordType = {
+        kind: 'record',
+        fields: parts.flatMap(t => (t as RecordType).fields)
+      };
+      return isSubtype(merged, sup);
+    }
+    return parts.some(t => isSubtype(t, sup));
+  }
 
   if (sub.kind === sup.kind) {
     switch (sub.kind) {
@@ -95,13 +157,6 @@ export function isSubtype(sub: Type, sup: Type): boolean {
       case 'list':
         return isSubtype((sub as ListType).element, (sup as ListType).element);
 
-      case 'union':
-        const subUnion = sub as UnionType;
-        const supUnion = sup as UnionType;
-        return subUnion.types.every(t =>
-          supUnion.types.some(st => isSubtype(t, st))
-        );
-
       case 'record':
         const subRecord = sub as RecordType;
         const supRecord = sup as RecordType;
@@ -111,6 +166,22 @@ export function isSubtype(sub: Type, sup: Type): boolean {
           return isSubtype(subField.type, supField.type);
         });
 
+      // Parameters are contravariant and results covariant; extra parameters must be optional
+      case 'function': {
+        const subFunc = sub as FunctionType;
+        const supFunc = sup as FunctionType;
+        return subFunc.params.every((param, i) =>
+          i < supFunc.params.length ? isSubtype(supFunc.params[i].type, param.type) : param.optional
+        ) && supFunc.params.length <= subFunc.params.length &&
+          isSubtype(subFunc.returns, supFunc.returns) &&
+          // A function may only stand in for one with at least its effects; unknown effects are checked gradually
+          (!subFunc.effects || !supFunc.effects || subFunc.effects.every(e => supFunc.effects!.includes(e)));
+      }
+
+      case 'prompt':
+        return isSubtype((sup as PromptType).input, (sub as PromptType).input) &&
+          isSubtype((sub as PromptType).output, (sup as PromptType).output);
+
       default:
         return false;
     }
@@ -134,7 +205,14 @@ export function unionType(...types: Type[]): Type {
   }
 
   // Remove duplicates and never types
-  const unique = flattened.filter(t => t.kind !== 'never');
+  const seen = new Set<string>();
+  const unique = flattened.filter(t => {
+    if (t.kind === 'never') return false;
+    const key = JSON.stringify(t);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
   if (unique.length === 0) return { kind: 'never' };
   if (unique.length === 1) return unique[0];
 
@@ -1,9 +1,25 @@
 import { Parser } from '../src/parser/parser';
+import { ParseError } from '../src/parser/diagnostics';
+import { ASTNode, DefPrompt, DefSchema, LetDeclaration } from '../src/ast/types';
 import { TypeChecker } from '../src/types/checker';
+import { Type } from '../src/types/types';
+import { format } from '../src/format/formatter';
+import { transform, walk } from '../src/ast/visitor';
+import { clone, deserialize, equals, serialize } from '../src/ast/serialize';
+import { compileToTypeScript } from '../src/codegen/typescript';
+import * as rt from '../src/codegen/runtime';
+import { optimize } from '../src/optimizer/optimizer';
+import { ModuleLoader } from '../src/modules/loader';
+import { InMemoryResolver } from '../src/modules/resolver';
 import { Schema } from '../src/types/schema';
 import { TemplateEngine } from '../src/templates/engine';
 import { defprompt } from '../src/prompts/definition';
 import { TokenCounter } from '../src/runtime/tokenizer';
+import { Evaluator } from '../src/runtime/evaluator';
+import { dryRun } from '../src/runtime/dry-run';
+import { Tracer } from '../src/runtime/tracer';
+import { Debugger } from '../src/runtime/debugger';
+import { PromptCompiler } from '../src/composition/compiler';
 
 // Test the core functionality of all implemented phases
 
@@ -20,6 +36,73 @@ try {
   console.error('✗ Parser test failed:', error);
 }
 
+// Test Phase 1: Programs and defprompt declarations
+console.log('\nTesting Phase 1: Programs and defprompt declarations...');
+try {
+  const parser = new Parser(`
+    type Summary = string
+    let max_words = 100
+
+    defprompt summarize(text: string) :: string do
+      @model "gpt-4o"
+      @temperature 0.3
+      text
+    end
+  `);
+  const program = parser.parseProgram();
+  const prompt = program.declarations.find(d => d.kind === 'defprompt') as DefPrompt;
+  console.log('✓ Programs parse correctly');
+  console.log('  Declarations:', program.declarations.map(d => d.kind).join(', '));
+  console.log('  Prompt:', prompt.name, prompt.attributes.map(a => `@${a.name}`).join(' '));
+} catch (error) {
+  console.error('✗ Program test failed:', error);
+}
+
+// Test Phase 1: Error recovery
+console.log('\nTesting Phase 1: Error recovery...');
+try {
+  const parser = new Parser(`
+    type Broken = Strng
+    let a = f (x y
+    let b = )
+    let c = 1
+  `, { recover: true });
+  const program = parser.parseProgram();
+  console.log('✓ Parser recovers from syntax errors');
+  console.log('  Declarations:', program.declarations.length, 'diagnostics:', parser.getDiagnostics().map(d => d.code).join(', '));
+
+  const stray = new Parser('~ let a = 1\ntype T = ~\nlet b = 2', { recover: true });
+  stray.parseProgram();
+  const codes = stray.getDiagnostics().map(d => d.code);
+  if (codes.length === 2 && codes.every(code => code === 'P003')) {
+    console.log('✓ Unreadable characters are reported as P003 wherever they appear');
+  } else {
+    console.error('✗ Unreadable characters reported as', codes.join(', '));
+  }
+
+  const interpolation = new Parser('let a = "x {{ f ( }} y {{ name }}"\nlet b = 2', { recover: true });
+  interpolation.parseProgram();
+  const interpolationCodes = interpolation.getDiagnostics().map(d => d.code);
+  if (interpolationCodes.length === 1) {
+    console.log('✓ Recovery resumes after a broken interpolation');
+  } else {
+    console.error('✗ Broken interpolation reported as', interpolationCodes.join(', '));
+  }
+
+  const unterminated = ['let a = "abc', 'let a = "abc\\', 'let a = "x {{ "y'].map(source => {
+    const open = new Parser(source, { recover: true });
+    open.parseProgram();
+    return open.getDiagnostics()[0]?.code;
+  });
+  if (unterminated.every(code => code === 'P005')) {
+    console.log('✓ Strings cut off by the end of input are reported as P005');
+  } else {
+    console.error('✗ Unterminated strings reported as', unterminated.join(', '));
+  }
+} catch (error) {
+  console.error('✗ Error recovery test failed:', error);
+}
+
 // Test Phase 2: Type System and Validation
 console.log('\nTesting Phase 2: Type System and Validation...');
 try {
@@ -46,6 +129,479 @@ try {
   console.error('✗ Type system test failed:', error);
 }
 
+// Union and intersection types
+console.log('\nTesting union and intersection types...');
+try {
+  const declarations = new Parser(`
+    type Loose = string | number & boolean
+    type Grouped = (string | number) & record{id: number}
+  `).parseProgram().declarations;
+  const show = (type: Type): string => type.kind === 'union' || type.kind === 'intersection'
+    ? `(${type.types.map(show).join(type.kind === 'union' ? ' | ' : ' & ')})`
+    : type.kind === 'primitive' ? type.name : type.kind;
+  const checker = new TypeChecker();
+  checker.checkProgram(new Parser(`
+    let label = (name: string | null) -> name
+    let named = label "Ada"
+    let wrong = label 3
+  `).parseProgram());
+  console.log('✓ | and & parse with & binding tighter, and parentheses group');
+  console.log('  Types:', declarations.map(d => d.kind === 'type_alias' ? `${d.name} = ${show(d.type)}` : d.kind).join('; '));
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+
+  try {
+    new Parser('let f = (x: Strng) -> x').parseProgram();
+    console.error('✗ Unknown type name was accepted');
+  } catch (error) {
+    if (!(error instanceof ParseError) || error.diagnostic.code !== 'P004') {
+      throw error;
+    }
+    console.log('✓ Unknown type names are reported as P004');
+    console.log('  Error:', error.message);
+  }
+} catch (error) {
+  console.error('✗ Union and intersection type test failed:', error);
+}
+
+// Source spans
+console.log('\nTesting source spans...');
+try {
+  const source = 'let greeting = "héllo \\"you\\""\nlet size = greeting |> length';
+  const program = new Parser(source, { file: 'spans.pl' }).parseProgram();
+  const bytes = Buffer.from(source);
+  const spanned = (location: { offset: number; end: { offset: number } }) =>
+    bytes.subarray(location.offset, location.end.offset).toString();
+  const [greeting, size] = program.declarations;
+  const literal = greeting.kind === 'let_declaration' ? greeting.bindings[0].value : greeting;
+  const stage = size.kind === 'let_declaration' && size.bindings[0].value.kind === 'pipeline'
+    ? size.bindings[0].value.stages[1]
+    : size;
+  if (spanned(literal.location) === '"héllo \\"you\\""' && spanned(stage.location) === 'length' &&
+      spanned(size.location) === 'let size = greeting |> length' && stage.location.file === 'spans.pl') {
+    console.log('✓ Nodes carry start and end spans in UTF-8 bytes, and the file name');
+  } else {
+    console.error('✗ Spans do not match the source:', spanned(literal.location), spanned(stage.location), spanned(size.location));
+  }
+  const { line, column, end } = literal.location;
+  console.log(`  String literal: ${line}:${column}-${end.line}:${end.column}, bytes ${literal.location.offset}-${end.offset}`);
+} catch (error) {
+  console.error('✗ Source span test failed:', error);
+}
+
+// List and record literals
+console.log('\nTesting list and record literals...');
+try {
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(new Parser(`
+    let examples = [{input: "hi", output: "hello"}, {input: "bye", output: "goodbye"}]
+    let mixed = [1, "two"]
+    let empty = []
+    let person = {name: "Ada", tags: ["math", "code"]}
+  `).parseProgram());
+  const show = (type: Type): string => {
+    switch (type.kind) {
+      case 'primitive': return type.name;
+      case 'list': return `list[${show(type.element)}]`;
+      case 'record': return `record{${type.fields.map(f => `${f.name}: ${show(f.type)}`).join(', ')}}`;
+      case 'union': return type.types.map(show).join(' | ');
+      default: return type.kind;
+    }
+  };
+  console.log('✓ Literals infer list and record types');
+  console.log('  Types:', Array.from(env.bindings).map(([name, type]) => `${name} :: ${show(type)}`).join('; '));
+  console.log('  Errors:', checker.getErrors().length);
+
+  try {
+    new Parser('let twice = {name: "a", name: "b"}').parseProgram();
+    console.error('✗ Duplicate record field was accepted');
+  } catch (error) {
+    console.log('✓ Duplicate record fields are rejected');
+    console.log('  Error:', (error as Error).message);
+  }
+} catch (error) {
+  console.error('✗ List and record literal test failed:', error);
+}
+
+// Field access
+console.log('\nTesting field access...');
+try {
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(new Parser(`
+    type Resume = record{name: string, email: string?}
+    let excited = (text: string) -> text
+    let name = (resume: Resume) -> resume.name
+    let email = (resume: Resume) -> resume.email
+    let shout = (resume: Resume) -> resume.name.excited
+    let phone = (resume: Resume) -> resume.phone
+  `).parseProgram());
+  const returns = (name: string): string => {
+    const type = env.bindings.get(name)!;
+    const result = type.kind === 'function' ? type.returns : type;
+    return result.kind === 'union'
+      ? result.types.map(t => t.kind === 'primitive' ? t.name : t.kind).join(' | ')
+      : result.kind === 'primitive' ? result.name : result.kind;
+  };
+  const application = new Parser('excited resume.name').parse();
+  console.log('✓ Fields are typed against records, with optional fields nullable');
+  console.log('  Returns:', ['name', 'email', 'shout'].map(name => `${name} :: ${returns(name)}`).join('; '));
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+  if (application.kind === 'application' && application.args[0].kind === 'field_access') {
+    console.log('✓ Field access binds tighter than application');
+  } else {
+    console.error('✗ `excited resume.name` parsed as', application.kind);
+  }
+
+  const keywords = new TypeChecker();
+  keywords.checkProgram(new Parser(`
+    type Event = record{type: string, if: number}
+    let click = {type: "click", if: 1}
+    let kind = (event: Event) -> event.type
+    let count = (event: Event) -> case event when {type: "click", if: n} => n when _ => 0 end
+  `).parseProgram());
+  if (keywords.getErrors().length === 0) {
+    console.log('✓ Keywords can name record fields');
+  } else {
+    console.error('✗ Keyword field names rejected:', keywords.getErrors().map(e => e.message).join('; '));
+  }
+} catch (error) {
+  console.error('✗ Field access test failed:', error);
+}
+
+// Operators
+console.log('\nTesting operators...');
+try {
+  const group = (node: ASTNode): string => {
+    switch (node.kind) {
+      case 'binary': return `(${group(node.left)} ${node.operator} ${group(node.right)})`;
+      case 'unary': return `(${node.operator === 'not' ? 'not ' : '-'}${group(node.operand)})`;
+      case 'application': return `(${[node.func, ...node.args].map(group).join(' ')})`;
+      case 'pipeline': return node.stages.map(group).join(' |> ');
+      case 'identifier': return node.name;
+      case 'literal': return JSON.stringify(node.value);
+      default: return node.kind;
+    }
+  };
+  const expected: Array<[string, string]> = [
+    ['1 + 2 * 3', '(1 + (2 * 3))'],
+    ['10 - 4 - 3', '((10 - 4) - 3)'],
+    ['a < b and not c or d', '(((a < b) and (not c)) or d)'],
+    ['not a == b', '(not (a == b))'],
+    ['-x * 2', '((-x) * 2)'],
+    ['f a + g b', '((f a) + (g b))'],
+    ['x + 1 |> f 2', '(x + 1) |> (f 2)']
+  ];
+  const wrong = expected.filter(([source, grouped]) => group(new Parser(source).parse()) !== grouped);
+  if (wrong.length === 0) {
+    console.log('✓ Operators follow precedence and associate left, below application and above |>');
+  } else {
+    console.error('✗ Misparsed:', wrong.map(([source]) => `${source} as ${group(new Parser(source).parse())}`).join('; '));
+  }
+
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(new Parser(`
+    let joined = "budget: " + "low"
+    let over = 3 * 100 > 250
+    let bad = 1 + "one"
+  `).parseProgram());
+  const primitive = (type: Type) => type.kind === 'primitive' ? type.name : type.kind;
+  console.log('  Types:', ['joined', 'over'].map(name => `${name} :: ${primitive(env.bindings.get(name)!)}`).join('; '));
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+} catch (error) {
+  console.error('✗ Operator test failed:', error);
+}
+
+// Test Phase 2: Pattern matching
+console.log('\nTesting Phase 2: Pattern matching...');
+try {
+  const parser = new Parser(`
+    (response: record{kind: string, message: string}) ->
+      case response
+        when {kind: "error", message: msg} => msg
+        when _ => "ok"
+      end
+  `);
+  const checker = new TypeChecker();
+  const caseType = checker.check(parser.parse());
+  console.log('✓ Case expressions type check correctly');
+  console.log('  Type kind:', caseType.kind, 'errors:', checker.getErrors().length);
+} catch (error) {
+  console.error('✗ Pattern matching test failed:', error);
+}
+
+// Lambda defaults and return types
+console.log('\nTesting lambda defaults and return types...');
+try {
+  const checker = new TypeChecker();
+  checker.checkProgram(new Parser(`
+    let shorten = (text: string, max_words: number = 100): string -> text
+    let short = shorten "hello"
+    let bad = (n: number = "x"): string -> n
+  `).parseProgram());
+  console.log('✓ Defaults and return types are checked');
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+} catch (error) {
+  console.error('✗ Lambda defaults test failed:', error);
+}
+
+// Effect tracking
+console.log('\nTesting effect tracking...');
+try {
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(new Parser(`
+    defprompt extract(text: string) do "Extract: {{ text }}" end
+    let clean = pure (text: string) -> trim text
+    let summarize = (texts: list[string]) -> map texts extract
+    let pick = (items: list) -> first (shuffle items)
+    let sneaky = pure (text: string) -> clean text |> extract
+  `).parseProgram());
+  const effects = Array.from(env.bindings).map(([name, type]) =>
+    `${name}: ${type.kind === 'function' && type.effects?.length ? type.effects.join(', ') : 'pure'}`
+  );
+  console.log('✓ Effects are inferred and pure functions cannot call prompts');
+  console.log('  Effects:', effects.join('; '));
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+
+  const unknown = new TypeChecker();
+  unknown.checkProgram(new Parser(`
+    defprompt extract(text: string) do "Extract: {{ text }}" end
+    let apply = pure (f) -> f "x"
+    let leaked = apply extract
+    let blind = pure (f: (s: string) -> string) -> f "x"
+  `).parseProgram());
+  const unknownErrors = unknown.getErrors().map(e => e.message);
+  if (unknownErrors.length === 2 && unknownErrors[0].startsWith('Type mismatch') && unknownErrors[1].includes('effects are unknown')) {
+    console.log('✓ Pure functions cannot call functions of unknown effect');
+  } else {
+    console.error('✗ Pure function called an unknown function:', unknownErrors.join('; '));
+  }
+} catch (error) {
+  console.error('✗ Effect tracking test failed:', error);
+}
+
+// Type inference
+console.log('\nTesting type inference...');
+try {
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(new Parser(`
+    let inc = (x) -> x + 1
+    let id = (x) -> x
+    let greet = (person) -> "Hi " + person.name
+    let twice = (f, x) -> f (f x)
+    let wrong = inc "one"
+    let pair = [id 1, id "one", twice inc 1]
+    let nameless = greet {age: 3}
+  `).parseProgram());
+  const show = (type: Type): string => {
+    switch (type.kind) {
+      case 'primitive': return type.name;
+      case 'var': return `'${type.id}`;
+      case 'function': return `(${type.params.map(p => show(p.type)).join(', ')}) -> ${show(type.returns)}`;
+      case 'list': return `[${show(type.element)}]`;
+      case 'record': return `{${type.fields.map(f => `${f.name}: ${show(f.type)}`).join(', ')}}`;
+      case 'union': return type.types.map(show).join(' | ');
+      default: return type.kind;
+    }
+  };
+  console.log('✓ Unannotated parameters are inferred and let-bound functions generalised');
+  console.log('  Types:', ['inc', 'greet', 'twice', 'pair'].map(name => `${name} :: ${show(env.bindings.get(name)!)}`).join('; '));
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+} catch (error) {
+  console.error('✗ Type inference test failed:', error);
+}
+
+// Template literals
+console.log('\nTesting template literals...');
+try {
+  const template = new Parser('"""\n  Reply as JSON like \\{{"name": "..."}}\n  {{ {user: {name: "Ada"}}.user.name }}\n  """').parse();
+  if (template.kind !== 'template') {
+    throw new Error(`Expected a template, got ${template.kind}`);
+  }
+  const [text, interpolation] = template.parts;
+  console.log('✓ Templates handle escapes, nested braces and dedent');
+  console.log('  Text:', JSON.stringify(text.kind === 'text' ? text.value : ''));
+  console.log('  Interpolation at line', interpolation.kind === 'interpolation' ? interpolation.expression.location.line : '?');
+} catch (error) {
+  console.error('✗ Template literal test failed:', error);
+}
+
+// Type ascription
+console.log('\nTesting type ascription...');
+try {
+  const checker = new TypeChecker();
+  const program = new Parser(`
+    let extract = (text: string) -> {name: text}
+    let count = (n: number) -> n
+    let total = "resume text" |> extract :: record{name: string} |> count
+  `).parseProgram();
+  checker.checkProgram(program);
+  console.log('✓ Ascriptions pin intermediate pipeline results');
+  console.log('  Errors:', checker.getErrors().map(e => e.message).join('; '));
+} catch (error) {
+  console.error('✗ Type ascription test failed:', error);
+}
+
+// Formatter
+console.log('\nTesting Formatter round trip...');
+try {
+  const source = `# greeting
+let   greet = (name: string)->name |> upper|>trim   # shout
+defprompt hello(name: string) do @model "gpt-4o" greet name end`;
+  const formatted = format(source);
+  const sameAst = equals(new Parser(source).parseProgram(), new Parser(formatted).parseProgram());
+  console.log('✓ Formatter preserves the AST and comments');
+  console.log('  Same AST:', sameAst, 'idempotent:', format(formatted) === formatted);
+
+  const listSource = 'let steps = [\n  "outline", # first\n  "draft"\n]\nlet done = true';
+  const listFormatted = format(listSource);
+  const kept = listFormatted.split('\n').find(line => line.includes('# first'));
+  if (kept?.trim() === '"outline", # first' && format(listFormatted) === listFormatted &&
+      equals(new Parser(listSource).parseProgram(), new Parser(listFormatted).parseProgram())) {
+    console.log('✓ Comments inside list literals stay with their element');
+  } else {
+    console.error('✗ Comment inside a list literal moved:\n' + listFormatted);
+  }
+} catch (error) {
+  console.error('✗ Formatter test failed:', error);
+}
+
+// AST utilities
+console.log('\nTesting AST visitor and serialization...');
+try {
+  const program = new Parser('let total = (price: number) -> price * 2 + 1').parseProgram();
+  const identifiers: string[] = [];
+  walk(program, {
+    enter: node => {
+      if (node.kind === 'identifier') {
+        identifiers.push(node.name);
+      }
+    }
+  });
+  const doubled = transform(program, node =>
+    node.kind === 'literal' && typeof node.value === 'number' ? { ...node, value: node.value * 2 } : node
+  );
+  console.log('✓ Visitor walks and rewrites ASTs');
+  console.log('  Identifiers:', identifiers.join(', '), 'rewritten equal:', equals(doubled, program));
+  console.log('✓ Clone and JSON round trip preserve the AST');
+  console.log('  Clone equal:', equals(clone(program), program, { locations: true }),
+    'JSON equal:', equals(deserialize(serialize(program)), program, { locations: true }));
+} catch (error) {
+  console.error('✗ AST utilities test failed:', error);
+}
+
+// Modules
+console.log('\nTesting module imports...');
+try {
+  const loader = new ModuleLoader(new InMemoryResolver({
+    'schemas.pl': 'type Resume = record{name: string}\nlet maxLength = 500',
+    'main.pl': 'import "./schemas.pl" (Resume, maxLength)\ndefprompt name(r: Resume) do r.name end\nlet limit = maxLength * 2',
+    'a.pl': 'import "./b.pl"',
+    'b.pl': 'import "./a.pl"'
+  }));
+  const main = loader.load('main.pl');
+  console.log('✓ Imported types and values flow into the type checker');
+  console.log('  Exports:', [...main.exports.values.keys()].join(', '), 'errors:', main.errors.length);
+
+  try {
+    loader.load('a.pl');
+    console.error('✗ Import cycle was not detected');
+  } catch (error) {
+    console.log('✓ Import cycles are detected');
+    console.log('  Error:', (error as Error).message);
+  }
+} catch (error) {
+  console.error('✗ Module test failed:', error);
+}
+
+// Schema declarations
+console.log('\nTesting schema declarations...');
+try {
+  const program = new Parser(`
+    defschema Resume "A candidate's resume" do
+      name: string required "Full name"
+      years: number = 0
+    end
+    defprompt greet(resume: Resume) do resume.name end
+  `).parseProgram();
+  const checker = new TypeChecker();
+  const env = checker.checkProgram(program);
+  const resumeSchema = Schema.fromDeclaration(program.declarations[0] as DefSchema);
+  const parsed = resumeSchema.parse('{"name": "Ada"}');
+  console.log('✓ defschema produces a checker type and a runtime schema');
+  console.log('  greet type:', env.bindings.get('greet')?.kind, 'errors:', checker.getErrors().length);
+  console.log('  Parsed with defaults:', JSON.stringify(parsed.value));
+} catch (error) {
+  console.error('✗ Schema declaration test failed:', error);
+}
+
+// Optimizer
+console.log('\nTesting optimizer...');
+try {
+  const program = optimize(new Parser(`
+    let limit = 2 * 50
+    let tone = "formal" |> uppercase
+    let wrap = (s) -> "[" + s + "]"
+    defprompt summarize(text: string) do
+      let style = "Be {{ tone }}", unused = [1, 2] in
+      "{{ style }}, at most {{ limit + 1 }} words {{ wrap "!" }}: {{ text |> ((t) -> t + ".") |> ((t) -> t + ".") }}"
+    end
+  `).parseProgram());
+  const body = (program.declarations[3] as DefPrompt).body;
+  console.log('✓ Optimizer folds constants, inlines bindings and fuses stages');
+  console.log('  Prompt parts:', body.kind === 'template' ? body.parts.map(p => p.kind === 'text' ? JSON.stringify(p.value) : p.expression.kind).join(' + ') : body.kind);
+
+  const ordered = optimize(new Parser(`
+    defprompt summarize(text: string) do "Summarize: {{ text }}" end
+    defprompt critique(text: string) do "Critique: {{ text }}" end
+    let review = (text: string) -> let summary = summarize text in critique text + summary
+  `).parseProgram());
+  const review = (ordered.declarations[2] as LetDeclaration).bindings[0].value;
+  if (review.kind === 'lambda' && review.body.kind === 'let') {
+    console.log('✓ Model calls are not inlined past other calls');
+  } else {
+    console.error('✗ Model calls reordered:', JSON.stringify(review));
+  }
+
+  const shadowed = optimize(new Parser(`
+    let shout = (s: string) -> uppercase "hi" + s
+    let uppercase = (s: string) -> s
+  `).parseProgram());
+  const shout = (shadowed.declarations[0] as LetDeclaration).bindings[0].value;
+  if (shout.kind === 'lambda' && shout.body.kind === 'binary' && shout.body.left.kind === 'application') {
+    console.log('✓ Builtins shadowed further down are not folded');
+  } else {
+    console.error('✗ Shadowed builtin folded:', JSON.stringify(shout));
+  }
+} catch (error) {
+  console.error('✗ Optimizer test failed:', error);
+}
+
+// TypeScript code generation
+console.log('\nTesting TypeScript code generation...');
+try {
+  const code = compileToTypeScript(new Parser(`
+    defschema Person do
+      name: string required "Full name; never ends a comment */"
+      age: number = 0
+    end
+    let greet = (name: string) -> "Hello, {{ name }}"
+    defprompt extract(text: string) :: Person do @model "gpt-4o" greet text end
+  `).parseProgram());
+  const exported = code.split('\n').filter(line => line.startsWith('export')).map(line => line.split(/[({=]/)[0].trim());
+  console.log('✓ Programs compile to typed TypeScript modules');
+  console.log('  Exports:', exported.join('; '));
+  console.log('  Field comment:', code.split('\n').find(line => line.includes('/**'))!.trim());
+
+  const modules = new ModuleLoader(new InMemoryResolver({
+    'people.pl': 'defschema Person do\n  name: string required\nend\nlet limit = 3\nlet shout = (s: string) -> uppercase s',
+    'main.pl': 'import "./people.pl" (Person, limit, shout)\ndefprompt find(text: string) :: Person do shout (truncate text limit) end'
+  }));
+  const main = compileToTypeScript(modules.load('main.pl').program, { modules });
+  console.log('✓ Imports compile to TypeScript imports');
+  console.log('  ' + main.split('\n').filter(line => /^import|outputSchema|rt\.text\(/.test(line)).map(line => line.trim()).join('\n  '));
+} catch (error) {
+  console.error('✗ Code generation test failed:', error);
+}
+
 // Test Phase 3: Template System and Composition
 console.log('\nTesting Phase 3: Template System and Composition...');
 try {
@@ -88,5 +644,189 @@ try {
   console.error('✗ Prompt definition test failed:', error);
 }
 
-console.log('\n=== All Tests Completed ===');
-console.log('All phases have been successfully implemented and tested!');
\ No newline at end of file
+// Evaluator (async, so it runs after the synchronous sections above)
+async function testEvaluator(): Promise<void> {
+  console.log('\nTesting evaluator...');
+  try {
+    const program = new Parser(`
+      let add = (a: number, b: number) -> a + b
+      let greet = (name: string, greeting: string = "Hello") -> "{{ greeting }}, {{ name }}!"
+      let shots = [{input: "hi", output: add 1 2}, {input: "bye", output: 0}]
+      let arithmetic = [10 - 4 - 3, 2 + 3 * 4, "a" + "b", not 1 > 2 and true, -2 * 3]
+      defprompt summarize(text: string) do @model "gpt-4o" "Summarize: {{ text }}" end
+      let total = 1 |> add 2 |> add 3
+      let message = greet "Ada"
+      let summary = summarize message
+      let person = {name: "Ada"}
+      let unset = [person.age, person.length, "ada".uppercase]
+      let inherited = [person.constructor, case person when {toString: s} => "matched" when _ => "no match" end]
+      let sequential = let a = 1, b = a + 1, a = b * 10 in [a, b]
+    `).parseProgram();
+    const evaluator = new Evaluator({
+      runPrompt: async request => `[${request.attributes.model}] ${request.prompt}`
+    });
+    const env = await evaluator.evaluateProgram(program);
+    console.log('✓ Evaluator runs closures, pipelines, defaults and prompts');
+    console.log('  literals:', JSON.stringify(env.bindings.get('shots')), 'operators:', JSON.stringify(env.bindings.get('arithmetic')));
+    console.log('  total:', env.bindings.get('total'), 'message:', env.bindings.get('message'));
+    console.log('  summary:', env.bindings.get('summary'));
+    console.log('  missing fields and methods:', env.bindings.get('unset'));
+    if (JSON.stringify(env.bindings.get('inherited')) === '[null,"no match"]') {
+      console.log('✓ Records expose only their own fields');
+    } else {
+      console.error('✗ Record prototype fields leaked:', env.bindings.get('inherited'));
+    }
+    if (JSON.stringify(env.bindings.get('sequential')) === '[20,2]') {
+      console.log('✓ Let bindings see the bindings before them');
+    } else {
+      console.error('✗ Sequential let evaluated to', env.bindings.get('sequential'));
+    }
+    const generated = [
+      await rt.field({ name: 'Ada' }, 'constructor'),
+      rt.match({ kind: 'record_pattern', fields: [{ name: 'toString', pattern: { kind: 'wildcard_pattern' } }] }, { name: 'Ada' }) ? 'matched' : 'no match'
+    ];
+    if (JSON.stringify(generated) === JSON.stringify(env.bindings.get('inherited'))) {
+      console.log('✓ Generated code sees the same fields');
+    } else {
+      console.error('✗ Generated code found inherited fields:', generated);
+    }
+
+    const loader = new ModuleLoader(new InMemoryResolver({
+      'helpers.pl': 'let double = (n: number) -> n * 2\nlet base = double 10',
+      'main.pl': 'import "./helpers.pl" (double, base)\nlet result = double base'
+    }));
+    const main = await new Evaluator({ modules: loader }).evaluateProgram(loader.load('main.pl').program);
+    console.log('✓ Imported values are evaluated and bound');
+    console.log('  result:', main.bindings.get('result'));
+  } catch (error) {
+    console.error('✗ Evaluator test failed:', error);
+  }
+
+  console.log('\nTesting standard library...');
+  try {
+    const source = `
+      let shout = "  hello world " |> trim |> uppercase
+      let tagged = "a,b,c" |> split "," |> map (x) -> x + "!"
+      let big = [1, 2, 3, 4] |> filter (n: number) -> n > 2
+      let pieces = "one two three four five" |> chunk_words 2
+      let lookups = [has {name: "Ada"} "constructor", get {name: "Ada"} "toString"]
+    `;
+    const checker = new TypeChecker();
+    checker.checkProgram(new Parser(source).parseProgram());
+    checker.checkProgram(new Parser('let bad = uppercase 3').parseProgram());
+    checker.checkProgram(new Parser('let size = length 3').parseProgram());
+    const env = await new Evaluator().evaluateProgram(new Parser(source).parseProgram());
+    const rendered = new TemplateEngine().render('{{ uppercase(name) }} {{ read_file(path) }}', { name: 'ada', path: 'package.json' });
+    console.log('✓ Builtins are shared by the checker, evaluator and templates');
+    console.log('  checker errors:', checker.getErrors().map(e => e.message).join('; '));
+    console.log('  shout:', env.bindings.get('shout'), 'tagged:', env.bindings.get('tagged'), 'big:', env.bindings.get('big'));
+    console.log('  pieces:', env.bindings.get('pieces'), 'template:', rendered);
+    if (JSON.stringify(env.bindings.get('lookups')) === '[false,null]') {
+      console.log('✓ get and has see only a record\'s own fields');
+    } else {
+      console.error('✗ get and has found inherited fields:', env.bindings.get('lookups'));
+    }
+  } catch (error) {
+    console.error('✗ Standard library test failed:', error);
+  }
+
+  console.log('\nTesting prompt compiler...');
+  try {
+    const program = new Parser(`
+      defschema Person do
+        name: string required
+        age: number = 0
+      end
+
+      defprompt extract(text: string) :: Person do
+        @model "gpt-4o"
+        "Extract a person from: {{ text }}"
+        |> validate_schema Person
+        |> retry_with_backoff {max_attempts: 3, initial_delay: 1}
+      end
+
+      defprompt shout(text: string) do "{{ text }}" |> uppercase end
+    `).parseProgram();
+    let calls = 0;
+    let allCalls = 0;
+    const compiled = await new PromptCompiler({
+      runPrompt: async request => {
+        allCalls++;
+        if (request.name !== 'extract') {
+          return request.prompt;
+        }
+        calls++;
+        return calls === 1 ? 'not json' : '{"name": "Ada"}';
+      }
+    }).compile(program);
+    const callsWhileCompiling = allCalls;
+    const person = await compiled.prompts.get('extract')!('Ada is a programmer').execute();
+    const both = await compiled.flow(new Parser('parallel [shout "a", shout "b"]').parse()).execute();
+    console.log('✓ Compiler lowers defprompts to retried, validated prompt graphs');
+    console.log('  person:', person, 'model calls:', calls);
+    console.log('  parallel:', both);
+    console.log('  model calls while compiling:', callsWhileCompiling);
+
+    try {
+      await new PromptCompiler({ runPrompt: async () => 'called' }).compile(new Parser(
+        'defprompt shout(text: string) do "{{ text }}" end\nlet eager = shout "now"'
+      ).parseProgram());
+      console.error('✗ Compiling called a prompt');
+    } catch (error) {
+      console.log('✓ Top-level prompt calls are rejected at compile time');
+      console.log('  Error:', (error as Error).message);
+    }
+  } catch (error) {
+    console.error('✗ Prompt compiler test failed:', error);
+  }
+
+  console.log('\nTesting dry runs...');
+  try {
+    const { report, transcript } = await dryRun(new Parser(`
+      defschema Person do
+        name: string required
+      end
+      defprompt extract(text: string) :: Person do @model "gpt-4o" @system "Be precise." "Extract: {{ text }}" end
+      defprompt greet(p: Person) do @max_tokens 50 "Write a greeting for {{ p.name }}" end
+      let greeting = greet (extract "Ada is a programmer")
+    `).parseProgram(), { maxTokens: 200 });
+    console.log('✓ Dry runs record requests without calling a model');
+    console.log('  Calls:', report.calls.map(c => `${c.name} -> ${c.request.model}${c.request.response_format ? ' (json_schema)' : ''}`).join(', '));
+    console.log('  Max tokens:', report.calls.map(c => `${c.name} ${c.request.max_tokens}`).join(', '));
+    console.log('  Estimated cost: $' + report.totals.cost.total.toFixed(4));
+    console.log('  Transcript starts:', JSON.stringify(transcript.split('\n').slice(0, 4).join('\n')));
+  } catch (error) {
+    console.error('✗ Dry run test failed:', error);
+  }
+
+  console.log('\nTesting tracer and debugger...');
+  try {
+    const tracer = new Tracer();
+    const pauses: string[] = [];
+    const debug = new Debugger(paused => {
+      pauses.push(`${paused.location.line}:${paused.location.column} ${Array.from(paused.variables().keys()).join(',')}`);
+      return 'continue';
+    });
+    debug.setBreakpoint({ line: 2, column: 33 });
+    await new Evaluator({ hooks: [tracer, debug], runPrompt: async request => `<${request.name}>` }).evaluateProgram(new Parser(
+      'defprompt classify(text: string) do "Classify: {{ text }}" end\n' +
+      'let shorten = (text: string) -> truncate text 3\n' +
+      'let label = "  Hello there general Kenobi " |> trim |> shorten |> classify'
+    ).parseProgram());
+    console.log('✓ Evaluation is traced and pauses at breakpoints');
+    console.log('  Trace:\n' + tracer.toText().replace(/ \[\d+ms\]/g, '').split('\n').map(line => '    ' + line).join('\n'));
+    console.log('  Paused at:', pauses.join('; '));
+    if (tracer.toText().startsWith('pipeline (3 stages)')) {
+      console.log('✓ Pipelines are labelled with their stage count');
+    } else {
+      console.error('✗ Pipeline label:', tracer.toText().split('\n')[0]);
+    }
+  } catch (error) {
+    console.error('✗ Tracer test failed:', error);
+  }
+}
+
+testEvaluator().finally(() => {
+  console.log('\n=== All Tests Completed ===');
+  console.log('All phases have been successfully implemented and tested!');
+});
\ No newline at end of file